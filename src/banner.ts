@@ -3,12 +3,32 @@
 // Under MIT.
 // https://github.com/kekyo/prettier-max/
 
-import { existsSync } from 'fs';
 import { readFile, readdir, writeFile } from 'fs/promises';
-import { join, relative, extname } from 'path';
+import { dirname, join, relative, resolve, extname } from 'path';
 import ignore, { type Ignore } from 'ignore';
 
 import type { Logger } from './logger.js';
+import type {
+  BannerFileStatus,
+  BannerMode,
+  BannerStyle,
+  BannerSummary,
+  Diagnostic,
+} from './types.js';
+import { createPrettierMaxDiagnostic } from './diagnostics.js';
+import {
+  classifyHeader,
+  listPreviousBannerDirectories,
+  loadPreviousBanners,
+  type HeaderOwnership,
+} from './bannerMatch.js';
+import { createFingerprint, hashContent, openFileHashCache } from './cache.js';
+import {
+  createBannerPlaceholders,
+  loadGitPlaceholderState,
+  usesGitPlaceholders,
+  type BannerPlaceholders,
+} from './bannerTemplate.js';
 
 const BANNER_FILENAME = '.prettierbanner';
 const PRETTIER_IGNORE_FILENAME = '.prettierignore';
@@ -22,19 +42,112 @@ const DEFAULT_EXTENSIONS = [
   '.cjs',
 ] as const;
 const SKIP_DIRECTORIES = new Set(['node_modules', '.git']);
+const BANNER_STYLES: readonly BannerStyle[] = [
+  'line',
+  'block',
+  'jsdoc',
+  'html',
+  'hash',
+];
+const DEFAULT_STYLES: Record<string, BannerStyle> = {
+  '.css': 'block',
+  '.scss': 'block',
+  '.less': 'block',
+  '.html': 'html',
+  '.htm': 'html',
+  '.vue': 'html',
+  '.svelte': 'html',
+  '.md': 'html',
+  '.markdown': 'html',
+  '.yml': 'hash',
+  '.yaml': 'hash',
+  '.sh': 'hash',
+  '.bash': 'hash',
+  '.zsh': 'hash',
+};
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+
+/**
+ * How an existing banner of each style is recognized at the top of a file
+ */
+const BANNER_SYNTAX: Record<
+  BannerStyle,
+  { prefix: string } | { open: string; close: string }
+> = {
+  line: { prefix: '//' },
+  hash: { prefix: '#' },
+  // Either block style replaces the other.
+  block: { open: '/*', close: '*/' },
+  jsdoc: { open: '/*', close: '*/' },
+  html: { open: '<!--', close: '-->' },
+};
+
+/**
+ * Banner outcome with the diagnostics of check mode
+ */
+interface ApplyBannerResult extends BannerSummary {
+  diagnostics: Diagnostic[];
+}
 
-type BannerAction = 'inserted' | 'replaced';
+/**
+ * Banner rendered for the comment style of a file
+ */
+interface BannerTarget {
+  content: string;
+  placeholders: BannerPlaceholders;
+  /**
+   * Tell whether a header that is not the banner is a version of it
+   */
+  classify: (header: string, filePath: string) => Promise<HeaderOwnership>;
+}
 
-interface BannerSummary {
-  total: number;
-  inserted: number;
-  replaced: number;
+interface FileOutcome {
+  status: BannerFileStatus;
+  content: string;
+  /**
+   * Line the banner belongs at, for files check mode reports
+   */
+  line?: number;
+  /**
+   * Header left as is for lack of any banner to compare it with
+   */
+  uncompared?: boolean;
 }
 
 interface ApplyBannerOptions {
   rootDir: string;
   logger: Logger;
   extensions?: string[];
+  /**
+   * Comment style per extension, merged over the defaults
+   */
+  styles?: Record<string, BannerStyle>;
+  mode?: BannerMode;
+  cache?: boolean;
+  /**
+   * Restrict insertion to these absolute paths
+   */
+  files?: string[];
+}
+
+/**
+ * Banner text of a .prettierbanner file, rendered per comment style
+ */
+interface BannerSource {
+  /**
+   * Path of the banner file relative to rootDir, shown in errors
+   */
+  path: string;
+  /**
+   * Banner lines without comment markers
+   */
+  lines: string[];
+  newline: string;
+  /**
+   * Canonical content of a banner written with `//` lines,
+   * used unchanged for the line style
+   */
+  lineComment: string | undefined;
 }
 
 interface BannerCandidate {
@@ -134,14 +247,16 @@ const isPathIgnored = (
 };
 
 /**
- * Traverse the project tree gathering files that meet the configured criteria.
+ * Traverse the project tree gathering files that meet the configured criteria,
+ * and the directories holding a banner file.
  */
 const collectTargetFiles = async (
   rootDir: string,
   extensions: Set<string>,
   matcher: Ignore | undefined
-): Promise<string[]> => {
+): Promise<{ files: string[]; bannerDirectories: Set<string> }> => {
   const files: string[] = [];
+  const bannerDirectories = new Set<string>();
   const queue: string[] = [rootDir];
 
   while (queue.length > 0) {
@@ -167,6 +282,10 @@ const collectTargetFiles = async (
       if (!entry.isFile()) {
         continue;
       }
+      if (entry.name === BANNER_FILENAME) {
+        bannerDirectories.add(current);
+        continue;
+      }
 
       const extension = extname(entry.name).toLowerCase();
       if (!extensions.has(extension)) {
@@ -182,75 +301,150 @@ const collectTargetFiles = async (
   }
 
   files.sort();
-  return files;
+  return { files, bannerDirectories };
 };
 
 /**
- * Validate that every banner line complies with the documented constraints.
+ * Find the directory of the banner file nearest to a file,
+ * walking up from the file towards rootDir.
  */
-const validateBannerShape = (content: string): void => {
-  // Enforce the contract: banner lines are comment-style or whitespace-only.
-  const normalized = content.replace(/\r/g, '');
-  const lines = normalized.split('\n');
+const findBannerDirectory = (
+  rootDir: string,
+  filePath: string,
+  bannerDirectories: Set<string>
+): string | undefined => {
+  let directory = dirname(filePath);
+  while (!bannerDirectories.has(directory)) {
+    const parent = dirname(directory);
+    if (directory === rootDir || parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+  return directory;
+};
 
-  const hasNonEmptyLine = lines.some((line) => line.length > 0);
-  if (!hasNonEmptyLine) {
-    throw new Error('.prettierbanner must not be empty.');
+/**
+ * Load the banner text of a banner file, enforcing line count rules.
+ * Returns null for an empty file, which turns banners off below its directory.
+ */
+const loadBanner = async (
+  rootDir: string,
+  directory: string
+): Promise<BannerSource | null> => {
+  const bannerPath = join(directory, BANNER_FILENAME);
+  const path = normalizeRelativePath(relative(rootDir, bannerPath));
+  const rawContent = await readFile(bannerPath, 'utf8');
+  const lines = rawContent
+    .replace(/\r/g, '')
+    .split('\n')
+    .map((line) => line.trimEnd());
+  // Surrounding blank lines are not part of the banner text.
+  while (lines.length > 0 && lines[0]!.length === 0) {
+    lines.shift();
+  }
+  while (lines.length > 0 && lines[lines.length - 1]!.length === 0) {
+    lines.pop();
+  }
+  if (lines.length === 0) {
+    return null;
   }
 
-  for (const line of lines) {
-    if (line.length === 0) {
-      continue;
-    }
-    if (line.startsWith('//')) {
-      continue;
-    }
-    if (/^\s+$/.test(line)) {
-      continue;
-    }
+  // Banners written with `//` lines are still accepted as is, and their
+  // text is taken from behind the markers for the other styles.
+  const isLineComment = lines.every(
+    (line) => line.length === 0 || line.startsWith('//')
+  );
+  const lineComment = isLineComment
+    ? ensureTrailingBlankLine(rawContent)
+    : undefined;
+  const lineCount = lineComment
+    ? countLogicalLines(lineComment)
+    : lines.length + 1;
+  if (lineCount > MAX_BANNER_LINES) {
     throw new Error(
-      '.prettierbanner can only contain lines that start with // or whitespace-only lines.'
+      `${path} must not exceed ${MAX_BANNER_LINES} lines (including the terminating blank line).`
     );
   }
+  return {
+    path,
+    lines: isLineComment
+      ? lines.map((line) => line.replace(/^\/\/ ?/, ''))
+      : lines,
+    newline: detectPreferredNewline(rawContent),
+    lineComment,
+  };
 };
 
 /**
- * Load and canonicalise the banner, enforcing line count and formatting rules.
+ * Render the banner in a comment style, ending with a blank line.
  */
-const loadBanner = async (rootDir: string): Promise<string | undefined> => {
-  const bannerPath = join(rootDir, BANNER_FILENAME);
-  if (!existsSync(bannerPath)) {
-    // Absence of the configuration file means the feature is disabled silently.
-    return undefined;
+const renderBanner = (source: BannerSource, style: BannerStyle): string => {
+  if (style === 'line' && source.lineComment !== undefined) {
+    return source.lineComment;
   }
-  const rawContent = await readFile(bannerPath, 'utf8');
-  validateBannerShape(rawContent);
-  const canonical = ensureTrailingBlankLine(rawContent);
-  if (countLogicalLines(canonical) > MAX_BANNER_LINES) {
-    throw new Error(
-      `.prettierbanner must not exceed ${MAX_BANNER_LINES} lines (including the terminating blank line).`
-    );
+  const { lines, newline } = source;
+  const prefixLines = (marker: string): string[] =>
+    lines.map((line) => (line.length > 0 ? `${marker} ${line}` : marker));
+  const assertNotClosing = (close: string): void => {
+    if (lines.some((line) => line.includes(close))) {
+      throw new Error(
+        `${source.path} cannot be written as a ${style} comment because it contains "${close}".`
+      );
+    }
+  };
+
+  let rendered: string[];
+  switch (style) {
+    case 'line':
+      rendered = prefixLines('//');
+      break;
+    case 'hash':
+      rendered = prefixLines('#');
+      break;
+    case 'block':
+    case 'jsdoc':
+      assertNotClosing('*/');
+      rendered = [
+        style === 'jsdoc' ? '/**' : '/*',
+        ...prefixLines(' *'),
+        ' */',
+      ];
+      break;
+    case 'html':
+      assertNotClosing('-->');
+      rendered = [
+        '<!--',
+        ...lines.map((line) => (line.length > 0 ? `  ${line}` : '')),
+        '-->',
+      ];
+      break;
   }
-  return canonical;
+  return rendered.join(newline) + newline + newline;
 };
 
 /**
  * Attempt to read a banner-like prefix from file content.
  */
 const extractBannerCandidate = (
-  content: string
+  content: string,
+  style: BannerStyle
 ): BannerCandidate | undefined => {
   // Scan the file prefix and collect at most MAX_BANNER_LINES lines that look like a banner.
   if (content.length === 0) {
     return undefined;
   }
 
+  const syntax = BANNER_SYNTAX[style];
+  // Block comments take their opening and closing lines on top of the text.
+  const maxLines = 'prefix' in syntax ? MAX_BANNER_LINES : MAX_BANNER_LINES + 2;
   let cursor = 0;
   let linesRead = 0;
   let lastSegmentEnd = 0;
   let terminatorReached = false;
+  let block: 'before' | 'inside' | 'closed' = 'before';
 
-  while (linesRead < MAX_BANNER_LINES && cursor < content.length) {
+  while (linesRead < maxLines && cursor < content.length) {
     const nextNewline = content.indexOf('\n', cursor);
     const segmentEnd = nextNewline === -1 ? content.length : nextNewline + 1;
     let lineEnd = nextNewline === -1 ? content.length : nextNewline;
@@ -260,9 +454,24 @@ const extractBannerCandidate = (
     const line = content.slice(cursor, lineEnd);
 
     const isWhitespace = line.trim().length === 0;
-    const isComment = line.startsWith('//');
-
-    if (!isComment && !isWhitespace) {
+    if ('prefix' in syntax) {
+      const isComment = line.startsWith(syntax.prefix);
+      if (!isComment && !isWhitespace) {
+        break;
+      }
+    } else if (block === 'before') {
+      // Blank lines may only follow the block, and the block must come first.
+      if (!line.startsWith(syntax.open)) {
+        break;
+      }
+      block = line.trimEnd().slice(syntax.open.length).endsWith(syntax.close)
+        ? 'closed'
+        : 'inside';
+    } else if (block === 'inside') {
+      if (line.trimEnd().endsWith(syntax.close)) {
+        block = 'closed';
+      }
+    } else if (!isWhitespace) {
       break;
     }
 
@@ -270,11 +479,19 @@ const extractBannerCandidate = (
     lastSegmentEnd = segmentEnd;
     cursor = segmentEnd;
 
+    if (block === 'inside') {
+      // Blank lines inside a block comment do not end the banner.
+      continue;
+    }
     if (line.length === 0 || nextNewline === -1) {
       terminatorReached = true;
       break;
     }
   }
+  if (block === 'closed' && cursor === content.length) {
+    // The block ends the file
+    terminatorReached = true;
+  }
 
   // If we never hit the terminator, the prefix either exceeded MAX_BANNER_LINES
   // or contained real code before a blank separator, so we treat it as "no banner".
@@ -289,71 +506,171 @@ const extractBannerCandidate = (
 };
 
 /**
- * Split content into optional shebang line and remaining body.
+ * Split content into the lines that must stay first (a shebang line, or the
+ * front matter of Markdown) and the remaining body.
  */
-const separateShebang = (
-  content: string
-): { shebang: string; rest: string } => {
+const separatePreamble = (
+  content: string,
+  extension: string
+): { preamble: string; rest: string } => {
+  if (MARKDOWN_EXTENSIONS.has(extension)) {
+    const frontMatter = /^---\r?\n(?:[\s\S]*?\r?\n)?---(?:\r?\n|$)/.exec(
+      content
+    );
+    if (!frontMatter) {
+      return { preamble: '', rest: content };
+    }
+    return {
+      preamble: frontMatter[0],
+      rest: content.slice(frontMatter[0].length),
+    };
+  }
+
   if (!content.startsWith('#!')) {
-    return { shebang: '', rest: content };
+    return { preamble: '', rest: content };
   }
 
   const newlineIndex = content.indexOf('\n');
   if (newlineIndex === -1) {
-    return { shebang: content, rest: '' };
+    return { preamble: content, rest: '' };
   }
   return {
-    shebang: content.slice(0, newlineIndex + 1),
+    preamble: content.slice(0, newlineIndex + 1),
     rest: content.slice(newlineIndex + 1),
   };
 };
 
 /**
- * Insert or replace the banner inside a single file.
+ * Insert, replace, check or remove the banner of a single file.
+ * @param previous - Classifies headers against deleted banner files, for
+ * files only processed to remove banners
  */
 const processFile = async (
   filePath: string,
-  bannerContent: string
-): Promise<BannerAction | undefined> => {
+  original: string,
+  style: BannerStyle,
+  banner: BannerTarget | undefined,
+  mode: BannerMode,
+  previous?: BannerTarget['classify']
+): Promise<FileOutcome> => {
   // Insert or replace banner material while preserving the original shebang if present.
-  const original = await readFile(filePath, 'utf8');
-  const { shebang, rest } = separateShebang(original);
+  const { preamble, rest } = separatePreamble(
+    original,
+    extname(filePath).toLowerCase()
+  );
+  // The banner belongs below a shebang or front matter.
+  const line = (preamble.match(/\n/g)?.length ?? 0) + 1;
+
+  const classify = banner?.classify ?? previous;
+  if (!classify) {
+    // Without any banner to compare with, no header is known to be ours.
+    const candidate = extractBannerCandidate(rest, style);
+    // A leading blank line is not a banner.
+    if (!candidate || candidate.content.trim().length === 0) {
+      return { status: 'unchanged', content: original };
+    }
+    return { status: 'unchanged', content: original, uncompared: true };
+  }
+
+  const identify = async (
+    header: BannerCandidate
+  ): Promise<HeaderOwnership | 'current'> =>
+    banner &&
+    banner.placeholders.matches(banner.content, filePath, header.content)
+      ? 'current'
+      : await classify(header.content, filePath);
+
+  // Foreign headers stay first, and our banner goes above them unless
+  // it is already right below.
+  let offset = 0;
+  let candidate = extractBannerCandidate(rest, style);
+  let ownership = candidate && (await identify(candidate));
+  if (candidate && ownership === 'foreign') {
+    const next = extractBannerCandidate(rest.slice(candidate.consumed), style);
+    const nextOwnership = next && (await identify(next));
+    if (next && (nextOwnership === 'current' || nextOwnership === 'ours')) {
+      offset = candidate.consumed;
+      ownership = nextOwnership;
+      candidate = next;
+    } else {
+      candidate = undefined;
+    }
+  }
+  if (ownership === 'ambiguous') {
+    return { status: 'ambiguous', content: original, line };
+  }
 
-  let body = rest;
-  const candidate = extractBannerCandidate(body);
+  const before = rest.slice(0, offset);
+  const after = rest.slice(offset + (candidate?.consumed ?? 0));
+  if (mode === 'remove') {
+    // A leading blank line is not a banner.
+    if (!candidate || candidate.content.trim().length === 0) {
+      return { status: 'unchanged', content: original };
+    }
+    const newContent = preamble + before + after;
+    await writeFile(filePath, newContent, 'utf8');
+    return { status: 'removed', content: newContent };
+  }
 
-  if (candidate && candidate.content === bannerContent) {
-    return undefined;
+  // Files without a banner are only processed to remove banners.
+  if (ownership === 'current' || !banner) {
+    return { status: 'unchanged', content: original };
   }
 
-  let action: BannerAction = 'inserted';
-  if (candidate) {
-    // Drop however many bytes the candidate consumed; this cuts out the old
-    // banner including its trailing separator.
-    body = body.slice(candidate.consumed);
-    action = 'replaced';
+  if (mode === 'check') {
+    return {
+      status: candidate ? 'stale' : 'missing',
+      content: original,
+      line: line + (before.match(/\n/g)?.length ?? 0),
+    };
   }
 
-  const newContent = shebang + bannerContent + body;
+  // The old banner is cut out including its trailing separator.
+  const newContent =
+    preamble +
+    before +
+    banner.placeholders.expand(banner.content, filePath) +
+    after;
   if (newContent === original) {
-    return undefined;
+    return { status: 'unchanged', content: original };
   }
 
   await writeFile(filePath, newContent, 'utf8');
-  return action;
+  return { status: candidate ? 'replaced' : 'inserted', content: newContent };
+};
+
+/**
+ * Merge the comment styles configured per extension over the defaults.
+ */
+const resolveBannerStyles = (
+  styles: Record<string, BannerStyle> | undefined
+): Map<string, BannerStyle> => {
+  const resolved = new Map(Object.entries(DEFAULT_STYLES));
+  for (const [extension, style] of Object.entries(styles ?? {})) {
+    if (!BANNER_STYLES.includes(style)) {
+      throw new Error(`Unknown banner style "${style}" for ${extension}.`);
+    }
+    resolved.set(extension.toLowerCase(), style);
+  }
+  return resolved;
 };
 
 /**
- * Apply the banner to all eligible files under rootDir.
+ * Apply, check or remove the banner of all eligible files under rootDir.
  */
 export const applyBanner = async (
   options: ApplyBannerOptions
-): Promise<BannerSummary | undefined> => {
-  const { rootDir, logger, extensions } = options;
-  const banner = await loadBanner(rootDir);
-  if (!banner) {
-    return undefined;
-  }
+): Promise<ApplyBannerResult | undefined> => {
+  const {
+    logger,
+    extensions,
+    styles,
+    mode = 'apply',
+    cache = true,
+    files,
+  } = options;
+  // Banner files are matched by directory while walking up from files.
+  const rootDir = resolve(options.rootDir);
 
   // Build ignore matcher and enumerate candidate files before we touch anything on disk.
   const matcher = await loadIgnoreMatcher(rootDir);
@@ -362,64 +679,317 @@ export const applyBanner = async (
       ext.toLowerCase()
     )
   );
+  const styleMap = resolveBannerStyles(styles);
+  const styleOf = (extension: string): BannerStyle =>
+    styleMap.get(extension) ?? 'line';
+
+  const { files: collectedFiles, bannerDirectories } = await collectTargetFiles(
+    rootDir,
+    extensionSet,
+    matcher
+  );
+  // Absence of banner files means the feature is disabled silently,
+  // but banners can still be removed after they are deleted.
+  if (bannerDirectories.size === 0 && mode !== 'remove') {
+    return undefined;
+  }
 
   if (extensionSet.size === 0) {
-    // With no extensions there is nothing meaningful to scan, so warn and
-    // bail out early to avoid walking the filesystem.
+    // With no extensions there is nothing meaningful to process, so warn
+    // and bail out early.
     logger.warn(
       'Banner insertion skipped because no target extensions are configured.'
     );
     return undefined;
   }
 
-  const targetFiles = await collectTargetFiles(rootDir, extensionSet, matcher);
-  if (targetFiles.length === 0) {
-    logger.debug('No files matched for banner insertion.');
-    return { total: 0, inserted: 0, replaced: 0 };
+  // Each banner file applies to its directory and below, up to the next
+  // banner file. Empty ones turn banners off there.
+  const banners = new Map<
+    string,
+    {
+      source: BannerSource;
+      placeholders: BannerPlaceholders;
+      classify: BannerTarget['classify'];
+    } | null
+  >();
+  for (const directory of Array.from(bannerDirectories).sort()) {
+    const source = await loadBanner(rootDir, directory);
+    if (!source) {
+      banners.set(directory, null);
+      continue;
+    }
+    const text = source.lines.join('\n');
+    // Placeholders are expanded per file.
+    const placeholders = await createBannerPlaceholders(
+      rootDir,
+      text,
+      source.path
+    );
+    // Previous versions are only looked up for headers unlike the banner.
+    let previousVersions: Promise<string[]> | undefined;
+    const classify = async (
+      header: string,
+      filePath: string
+    ): Promise<HeaderOwnership> => {
+      const current = placeholders.expand(text, filePath);
+      if (classifyHeader(header, [current]) === 'ours') {
+        return 'ours';
+      }
+      previousVersions ??= loadPreviousBanners(directory, BANNER_FILENAME);
+      return classifyHeader(header, [
+        current,
+        ...(await previousVersions).map((version) =>
+          placeholders.expand(version, filePath)
+        ),
+      ]);
+    };
+    banners.set(directory, { source, placeholders, classify });
   }
 
-  const summary: BannerSummary = {
-    total: targetFiles.length,
+  const scoped = files ? new Set(files) : undefined;
+  const targets = collectedFiles.flatMap((file) => {
+    if (scoped && !scoped.has(file)) {
+      return [];
+    }
+    const directory = findBannerDirectory(rootDir, file, bannerDirectories);
+    const banner = directory === undefined ? undefined : banners.get(directory);
+    // Files without a banner are only processed to remove banners.
+    if (banner === null || (banner === undefined && mode !== 'remove')) {
+      return [];
+    }
+    return [{ file, style: styleOf(extname(file).toLowerCase()), banner }];
+  });
+
+  // Files without a banner file only lose the headers of banner files
+  // deleted since, from the git history of the nearest directory with one.
+  const previousDirectories =
+    mode === 'remove' && targets.some(({ banner }) => !banner)
+      ? await listPreviousBannerDirectories(rootDir, BANNER_FILENAME)
+      : new Set<string>();
+  const previousBanners = new Map<string, BannerTarget['classify']>();
+  const previousFor = (file: string): BannerTarget['classify'] | undefined => {
+    const directory = findBannerDirectory(rootDir, file, previousDirectories);
+    if (directory === undefined) {
+      return undefined;
+    }
+    let classify = previousBanners.get(directory);
+    if (!classify) {
+      const path = normalizeRelativePath(
+        relative(rootDir, join(directory, BANNER_FILENAME))
+      );
+      const versions = loadPreviousBanners(directory, BANNER_FILENAME).then(
+        (versions) =>
+          Promise.all(
+            versions.map(async (version) => ({
+              version,
+              // Placeholders no longer resolvable are compared as is.
+              placeholders: await createBannerPlaceholders(
+                rootDir,
+                version,
+                path
+              ).catch(() => undefined),
+            }))
+          )
+      );
+      classify = async (header, filePath) =>
+        classifyHeader(
+          header,
+          (await versions).map(
+            ({ version, placeholders }) =>
+              placeholders?.expand(version, filePath) ?? version
+          )
+        );
+      previousBanners.set(directory, classify);
+    }
+    return classify;
+  };
+
+  const summary: ApplyBannerResult = {
+    mode,
+    total: targets.length,
     inserted: 0,
     replaced: 0,
+    removed: 0,
+    missing: 0,
+    stale: 0,
+    ambiguous: 0,
+    files: [],
+    diagnostics: [],
+  };
+  if (targets.length === 0) {
+    logger.debug('No files matched for banner insertion.');
+    return summary;
+  }
+
+  // Render once per banner and style, so a banner a style cannot hold
+  // fails before any file is written.
+  const renderedBanners = new Map<string, string>();
+  const renderFor = (
+    banner: { source: BannerSource },
+    style: BannerStyle
+  ): string => {
+    const key = `${banner.source.path}\0${style}`;
+    let rendered = renderedBanners.get(key);
+    if (rendered === undefined) {
+      rendered = renderBanner(banner.source, style);
+      renderedBanners.set(key, rendered);
+    }
+    return rendered;
   };
+  for (const { style, banner } of targets) {
+    if (banner) {
+      renderFor(banner, style);
+    }
+  }
+
+  const gitState = Array.from(banners.values()).some(
+    (banner) => banner && usesGitPlaceholders(banner.source.lines.join('\n'))
+  )
+    ? await loadGitPlaceholderState(rootDir)
+    : undefined;
+  if (gitState?.shallow) {
+    logger.warn(
+      '\x1b[33m⚠\x1b[0m The git history is shallow, so {{firstCommitYear}} and {{gitAuthor}} accept any value in existing banners, and new banners take this year and the git user. Fetch the full history (such as fetch-depth: 0 of actions/checkout) for the values of each file.'
+    );
+  }
+
+  // Files already carrying their banner since the last run are skipped;
+  // the banner files, comment styles and ignore rules are part of the
+  // fingerprint, package.json when a banner takes values from it, and the
+  // commit and git user when it takes values from the git history.
+  // Checked files are only recorded when they carry the banner, so check
+  // and apply share the cache.
+  const bannerPaths = Array.from(bannerDirectories)
+    .sort()
+    .map((directory) => join(directory, BANNER_FILENAME));
+  const usesPackage = Array.from(banners.values()).some((banner) =>
+    banner?.source.lines.some((line) => /\{\{\s*package\./.test(line))
+  );
+  const fileCache = cache
+    ? await openFileHashCache(
+        rootDir,
+        'banner',
+        await createFingerprint(
+          [
+            mode === 'remove' ? 'remove' : 'apply',
+            Array.from(extensionSet).sort().join(','),
+            Array.from(extensionSet)
+              .sort()
+              .map((extension) => `${extension}=${styleOf(extension)}`)
+              .join(','),
+            ...(gitState ? [gitState.fingerprint] : []),
+          ],
+          [
+            ...bannerPaths,
+            join(rootDir, PRETTIER_IGNORE_FILENAME),
+            ...(usesPackage ? [join(rootDir, 'package.json')] : []),
+          ]
+        ),
+        logger
+      )
+    : undefined;
 
   // Process files in parallel to keep large projects responsive.
   const results = await Promise.all(
-    targetFiles.map(async (file) => ({
-      file,
-      action: await processFile(file, banner),
-    }))
+    targets.map(
+      async ({
+        file,
+        style,
+        banner,
+      }): Promise<FileOutcome & { file: string }> => {
+        const original = await readFile(file, 'utf8');
+        const hash = fileCache ? hashContent(original) : '';
+        if (fileCache?.isFresh(file, hash)) {
+          fileCache.set(file, hash);
+          return { file, status: 'unchanged', content: original };
+        }
+        const outcome = await processFile(
+          file,
+          original,
+          style,
+          banner && {
+            content: renderFor(banner, style),
+            placeholders: banner.placeholders,
+            classify: banner.classify,
+          },
+          mode,
+          banner ? undefined : previousFor(file)
+        );
+        // Uncompared headers are looked at again once a banner turns up
+        if (
+          outcome.status !== 'missing' &&
+          outcome.status !== 'stale' &&
+          outcome.status !== 'ambiguous' &&
+          !outcome.uncompared
+        ) {
+          fileCache?.set(
+            file,
+            outcome.status === 'unchanged' ? hash : hashContent(outcome.content)
+          );
+        }
+        return { file, ...outcome };
+      }
+    )
   );
+  await fileCache?.save(!files);
 
-  const touched: { file: string; action: BannerAction }[] = [];
+  const touched: { rel: string; status: BannerFileStatus }[] = [];
+  const uncompared = results.filter((result) => result.uncompared).length;
+  if (uncompared > 0) {
+    logger.debug(
+      `Left the header of ${uncompared} file${uncompared === 1 ? '' : 's'} as is, with no .prettierbanner or previous version of one to compare with`
+    );
+  }
 
-  for (const { file, action } of results) {
-    if (!action) {
+  for (const { file, status, line } of results) {
+    const rel = normalizeRelativePath(relative(rootDir, file));
+    summary.files.push({ file: rel, status });
+    if (status === 'unchanged') {
       // No change required; leave the file untouched to avoid triggering
       // watchers or unnecessary writes.
       continue;
     }
-    touched.push({ file, action });
-    if (action === 'inserted') {
-      summary.inserted += 1;
-    } else {
-      summary.replaced += 1;
+    summary[status] += 1;
+    if (status === 'missing' || status === 'stale') {
+      summary.diagnostics.push(
+        createPrettierMaxDiagnostic(
+          file,
+          status === 'missing' ? 'PMAX004' : 'PMAX005',
+          status === 'missing'
+            ? 'File does not have the banner of .prettierbanner'
+            : 'Banner differs from .prettierbanner',
+          { line, column: 1 }
+        )
+      );
+      continue;
+    }
+    if (status === 'ambiguous') {
+      summary.diagnostics.push({
+        ...createPrettierMaxDiagnostic(
+          file,
+          'PMAX006',
+          'Header is neither clearly the banner of .prettierbanner nor a foreign one, so it is left as is',
+          { line, column: 1 }
+        ),
+        severity: 'warning',
+      });
+      continue;
     }
+    touched.push({ rel, status });
   }
 
   if (touched.length > 0) {
     // Provide a concise diff-style log to help users see what changed.
     logger.info(
-      `\x1b[32m✓\x1b[0m Banner applied to ${touched.length} file${touched.length === 1 ? '' : 's'}`
+      `\x1b[32m✓\x1b[0m Banner ${mode === 'remove' ? 'removed from' : 'applied to'} ${touched.length} file${touched.length === 1 ? '' : 's'}`
     );
-    for (const { file, action } of touched) {
-      const rel = normalizeRelativePath(relative(rootDir, file));
+    for (const { rel, status } of touched) {
       logger.info(
-        `  \x1b[90m${action === 'inserted' ? '+' : '~'} ${rel}\x1b[0m`
+        `  \x1b[90m${status === 'inserted' ? '+' : status === 'removed' ? '-' : '~'} ${rel}\x1b[0m`
       );
     }
-  } else {
+  } else if (summary.diagnostics.length === 0) {
     logger.debug('All banner targets already up-to-date.');
   }
 
@@ -0,0 +1,224 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { dirname, join } from 'path';
+
+import { runGit, splitLines } from './git.js';
+
+// Similarity from which a header is taken as ours, and up to which it is
+// taken as foreign. Headers in between are left alone and reported.
+const OURS_THRESHOLD = 0.5;
+const FOREIGN_THRESHOLD = 0.2;
+const MAX_PREVIOUS_VERSIONS = 20;
+
+// Words every license header has, which tell nothing about whose it is.
+const BOILERPLATE_WORDS = new Set([
+  'all',
+  'apache',
+  'bsd',
+  'by',
+  'c',
+  'copyright',
+  'gpl',
+  'identifier',
+  'isc',
+  'lgpl',
+  'license',
+  'licence',
+  'licensed',
+  'mit',
+  'mpl',
+  'present',
+  'reserved',
+  'rights',
+  'spdx',
+  'under',
+]);
+
+/**
+ * Whether a header at the top of a file is the banner
+ * - `ours`: the banner, or a previous version of it
+ * - `foreign`: a header of someone else, such as a third-party license
+ * - `ambiguous`: neither clearly ours nor clearly foreign
+ */
+export type HeaderOwnership = 'ours' | 'foreign' | 'ambiguous';
+
+/**
+ * Lines of a header, as their words without comment markers, placeholders
+ * and numbers such as years, which change without the banner changing.
+ */
+interface HeaderLine {
+  key: string;
+  copyright: boolean;
+  distinctive: string[];
+}
+
+const toLines = (text: string): HeaderLine[] =>
+  text.split(/\r?\n/).flatMap((line) => {
+    const words = (
+      line
+        .replace(/\{\{[^}]*\}\}/g, ' ')
+        .toLowerCase()
+        .match(/[\p{L}\p{N}]+/gu) ?? []
+    ).filter((word) => !/^\d+$/.test(word));
+    if (words.length === 0) {
+      return [];
+    }
+    return [
+      {
+        key: words.join(' '),
+        copyright: words.includes('copyright') || line.includes('\u00a9'),
+        distinctive: words.filter((word) => !BOILERPLATE_WORDS.has(word)),
+      },
+    ];
+  });
+
+/**
+ * Copyright holders of the copyright lines of a header
+ */
+const toHolders = (lines: readonly HeaderLine[]): Set<string> =>
+  new Set(
+    lines
+      .filter((line) => line.copyright)
+      .map((line) => line.distinctive.join(' '))
+  );
+
+/**
+ * Dice coefficient of the words of two word lists, from 0 to 1
+ */
+const measureSimilarity = (a: readonly string[], b: readonly string[]) => {
+  const wordsA = new Set(a);
+  const wordsB = new Set(b);
+  if (wordsA.size + wordsB.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) {
+      shared += 1;
+    }
+  }
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+/**
+ * Tell whether a header is one of the banners, comparing it with each of them.
+ * Copyright lines decide by their holders, and other headers by their words
+ * besides the license boilerplate.
+ */
+export const classifyHeader = (
+  header: string,
+  banners: readonly string[]
+): HeaderOwnership => {
+  const headerLines = toLines(header);
+  // Headers without words, such as a leading blank line, hold nothing to keep.
+  if (headerLines.length === 0) {
+    return 'ours';
+  }
+  const bannerLines = banners.map(toLines);
+
+  // A copyright notice belongs to its holder, whatever else it shares.
+  const holders = toHolders(headerLines);
+  if (holders.size > 0) {
+    return bannerLines.some((lines) => {
+      const bannerHolders = toHolders(lines);
+      return Array.from(holders).every((holder) => bannerHolders.has(holder));
+    })
+      ? 'ours'
+      : 'foreign';
+  }
+
+  const words = headerLines.flatMap((line) => line.distinctive);
+  if (words.length === 0) {
+    // Only boilerplate, such as an SPDX line, is ours when the banner
+    // has the same lines.
+    return bannerLines.some((lines) =>
+      headerLines.every((line) =>
+        lines.some((bannerLine) => bannerLine.key === line.key)
+      )
+    )
+      ? 'ours'
+      : 'foreign';
+  }
+  const similarity = Math.max(
+    0,
+    ...bannerLines.map((lines) =>
+      measureSimilarity(
+        words,
+        lines.flatMap((line) => line.distinctive)
+      )
+    )
+  );
+  if (similarity >= OURS_THRESHOLD) {
+    return 'ours';
+  }
+  return similarity > FOREIGN_THRESHOLD ? 'ambiguous' : 'foreign';
+};
+
+/**
+ * Previous contents of a banner file in the git history, newest first.
+ * Empty outside of a git repository.
+ */
+export const loadPreviousBanners = async (
+  directory: string,
+  fileName: string
+): Promise<string[]> => {
+  let commits: string[];
+  try {
+    commits = splitLines(
+      await runGit(directory, [
+        'log',
+        `--max-count=${MAX_PREVIOUS_VERSIONS}`,
+        '--format=%H',
+        '--',
+        fileName,
+      ])
+    );
+  } catch {
+    return [];
+  }
+
+  const versions: string[] = [];
+  for (const commit of commits) {
+    try {
+      versions.push(
+        await runGit(directory, ['show', `${commit}:./${fileName}`])
+      );
+    } catch {
+      // The file was deleted by this commit.
+    }
+  }
+  return versions;
+};
+
+/**
+ * Directories under rootDir that had a banner file at some point of the git
+ * history, including banner files deleted since. Empty outside of a git
+ * repository.
+ */
+export const listPreviousBannerDirectories = async (
+  rootDir: string,
+  fileName: string
+): Promise<Set<string>> => {
+  let output: string;
+  try {
+    output = await runGit(rootDir, [
+      // Non-ASCII paths are printed as is, not quoted.
+      '-c',
+      'core.quotePath=false',
+      'log',
+      '--relative',
+      '--name-only',
+      '--format=',
+      '--',
+      `:(glob)**/${fileName}`,
+    ]);
+  } catch {
+    return new Set();
+  }
+  return new Set(
+    splitLines(output).map((path) => dirname(join(rootDir, path)))
+  );
+};
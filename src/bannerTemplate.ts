@@ -0,0 +1,271 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { readFile } from 'fs/promises';
+import { join, relative } from 'path';
+
+import { runGit, splitLines } from './git.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const GIT_PLACEHOLDER_PATTERN = /\{\{\s*(firstCommitYear|gitAuthor)\s*\}\}/;
+const PACKAGE_PREFIX = 'package.';
+const FIRST_COMMIT_PREFIX = 'commit:';
+
+/**
+ * Placeholders of a banner, expanded per file
+ */
+export interface BannerPlaceholders {
+  /**
+   * Expand the placeholders of a banner for a file
+   */
+  expand: (banner: string, filePath: string) => string;
+  /**
+   * Whether content is the banner expanded for a file. Any year is accepted
+   * for `{{year}}`, so banners written in an earlier year are kept.
+   */
+  matches: (banner: string, filePath: string, content: string) => boolean;
+}
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Names of the placeholders used in a banner
+ */
+const collectPlaceholders = (banner: string): Set<string> =>
+  new Set(
+    Array.from(banner.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]!)
+  );
+
+/**
+ * Resolve a dotted path of package.json, taking the name of people fields
+ * such as `author`.
+ */
+const readPackageValue = (
+  packageJson: unknown,
+  path: string
+): string | undefined => {
+  let value = packageJson;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (typeof value === 'object' && value !== null && 'name' in value) {
+    value = value.name;
+  }
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : undefined;
+};
+
+/**
+ * Commit that added a file
+ */
+interface FirstCommit {
+  year: string;
+  author: string;
+}
+
+/**
+ * Commit each file was added in, from the git history of rootDir
+ */
+const loadFirstCommits = async (
+  rootDir: string
+): Promise<Map<string, FirstCommit>> => {
+  let output: string;
+  try {
+    output = await runGit(rootDir, [
+      // Non-ASCII paths are printed as is, not quoted.
+      '-c',
+      'core.quotePath=false',
+      'log',
+      '--diff-filter=A',
+      '--no-renames',
+      '--relative',
+      '--name-only',
+      '--date=format:%Y',
+      // The year comes first, since author names can contain spaces.
+      `--format=${FIRST_COMMIT_PREFIX}%ad %an`,
+    ]);
+  } catch {
+    // Outside of a git repository, or before the first commit,
+    // every file is new.
+    return new Map();
+  }
+
+  // Newest commits come first, so the earliest addition is set last.
+  const commits = new Map<string, FirstCommit>();
+  let commit: FirstCommit = { year: '', author: '' };
+  for (const line of splitLines(output)) {
+    if (line.startsWith(FIRST_COMMIT_PREFIX)) {
+      const [year = '', ...author] = line
+        .slice(FIRST_COMMIT_PREFIX.length)
+        .split(' ');
+      commit = { year, author: author.join(' ') };
+    } else {
+      commits.set(join(rootDir, line), commit);
+    }
+  }
+  return commits;
+};
+
+/**
+ * Name of the git user, who will commit the files not committed yet
+ */
+const loadGitUserName = async (rootDir: string): Promise<string> => {
+  try {
+    return (await runGit(rootDir, ['config', 'user.name'])).trim();
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Whether rootDir is in a shallow clone, whose history misses the
+ * commits before its boundary
+ */
+const isShallowRepository = async (rootDir: string): Promise<boolean> => {
+  try {
+    return (
+      (
+        await runGit(rootDir, ['rev-parse', '--is-shallow-repository'])
+      ).trim() === 'true'
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether a banner takes values from the git history
+ */
+export const usesGitPlaceholders = (banner: string): boolean =>
+  GIT_PLACEHOLDER_PATTERN.test(banner);
+
+/**
+ * State of the repository the git placeholders are derived from
+ */
+export interface GitPlaceholderState {
+  shallow: boolean;
+  /**
+   * Commit checked out and git user, for cache fingerprints
+   */
+  fingerprint: string;
+}
+
+export const loadGitPlaceholderState = async (
+  rootDir: string
+): Promise<GitPlaceholderState> => {
+  const [shallow, head, userName] = await Promise.all([
+    isShallowRepository(rootDir),
+    runGit(rootDir, ['rev-parse', 'HEAD']).then(
+      (output) => output.trim(),
+      () => ''
+    ),
+    loadGitUserName(rootDir),
+  ]);
+  return { shallow, fingerprint: `${shallow}\0${head}\0${userName}` };
+};
+
+/**
+ * Prepare the values of the placeholders a banner uses.
+ * In shallow clones the history is not looked up, and any year and author
+ * match the git placeholders, as files would seem added at the boundary.
+ * Throws on unknown placeholders and on package.json fields not found.
+ * @param bannerPath - Path of the banner file shown in errors
+ */
+export const createBannerPlaceholders = async (
+  rootDir: string,
+  banner: string,
+  bannerPath: string
+): Promise<BannerPlaceholders> => {
+  const names = collectPlaceholders(banner);
+  const year = String(new Date().getFullYear());
+
+  const projectValues = new Map<string, string>([['year', year]]);
+  const packageNames = Array.from(names).filter((name) =>
+    name.startsWith(PACKAGE_PREFIX)
+  );
+  if (packageNames.length > 0) {
+    let packageJson: unknown;
+    try {
+      packageJson = JSON.parse(
+        await readFile(join(rootDir, 'package.json'), 'utf8')
+      );
+    } catch {
+      packageJson = undefined;
+    }
+    for (const name of packageNames) {
+      const value = readPackageValue(
+        packageJson,
+        name.slice(PACKAGE_PREFIX.length)
+      );
+      if (value === undefined) {
+        throw new Error(
+          `{{${name}}} in ${bannerPath} is not found in package.json.`
+        );
+      }
+      projectValues.set(name, value);
+    }
+  }
+  for (const name of names) {
+    if (
+      !projectValues.has(name) &&
+      name !== 'relativePath' &&
+      name !== 'firstCommitYear' &&
+      name !== 'gitAuthor'
+    ) {
+      throw new Error(`Unknown placeholder {{${name}}} in ${bannerPath}.`);
+    }
+  }
+
+  const usesGit = names.has('firstCommitYear') || names.has('gitAuthor');
+  const shallow = usesGit && (await isShallowRepository(rootDir));
+  const firstCommits =
+    usesGit && !shallow ? await loadFirstCommits(rootDir) : undefined;
+  const userName = names.has('gitAuthor') ? await loadGitUserName(rootDir) : '';
+
+  const valueOf = (name: string, filePath: string): string => {
+    switch (name) {
+      case 'relativePath':
+        return relative(rootDir, filePath).split('\\').join('/');
+      case 'firstCommitYear':
+        // Files not committed yet are added this year.
+        return firstCommits?.get(filePath)?.year ?? year;
+      case 'gitAuthor':
+        return firstCommits?.get(filePath)?.author ?? userName;
+      default:
+        return projectValues.get(name) ?? '';
+    }
+  };
+
+  return {
+    expand: (template, filePath) =>
+      template.replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+        valueOf(name, filePath)
+      ),
+    matches: (template, filePath, content) => {
+      if (names.size === 0) {
+        return content === template;
+      }
+      // Split results alternate between text and placeholder names.
+      const pattern = template
+        .split(PLACEHOLDER_PATTERN)
+        .map((part, index) =>
+          index % 2 === 0
+            ? escapeRegExp(part)
+            : part === 'year' || (shallow && part === 'firstCommitYear')
+              ? '\\d{4}'
+              : shallow && part === 'gitAuthor'
+                ? '.+'
+                : escapeRegExp(valueOf(part, filePath))
+        )
+        .join('');
+      return new RegExp(`^${pattern}$`).test(content);
+    },
+  };
+};
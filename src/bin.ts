@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { runCli } from './cli.js';
+
+// Command line entry point, exits once the worker threads are done
+runCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
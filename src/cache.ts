@@ -0,0 +1,168 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join, relative } from 'path';
+
+import type { Logger } from './logger.js';
+import { version } from './generated/packageMetadata.js';
+
+// Bump when the layout of the cache files changes.
+const CACHE_FORMAT_VERSION = 2;
+
+/**
+ * Compute a stable hash of file content
+ */
+export const hashContent = (content: string | Buffer): string =>
+  createHash('sha256').update(content).digest('hex');
+
+/**
+ * Directory holding every persistent prettier-max cache of a project
+ */
+export const getCacheDirectory = (rootDir: string): string =>
+  join(rootDir, 'node_modules', '.cache', 'prettier-max');
+
+/**
+ * Build a fingerprint from the plugin version, arbitrary values and the
+ * content of the given files. Missing files are part of the fingerprint too,
+ * so creating or deleting one invalidates the cache.
+ */
+export const createFingerprint = async (
+  values: readonly (string | undefined)[],
+  filePaths: readonly string[]
+): Promise<string> => {
+  const hash = createHash('sha256');
+  hash.update(`${CACHE_FORMAT_VERSION}\0${version}\0`);
+  for (const value of values) {
+    hash.update(`${value ?? ''}\0`);
+  }
+  for (const filePath of filePaths) {
+    hash.update(`${filePath}\0`);
+    try {
+      hash.update(await readFile(filePath));
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException | undefined;
+      if (!err || err.code !== 'ENOENT') {
+        throw error;
+      }
+      hash.update('<missing>');
+    }
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+};
+
+interface CacheFileContent<T> {
+  fingerprint: string;
+  entries: Record<string, T>;
+}
+
+const getCacheFilePath = (rootDir: string, name: string): string =>
+  join(getCacheDirectory(rootDir), `${name}.json`);
+
+/**
+ * Read entries of a named cache file.
+ * Returns undefined when the file is missing, corrupted or has another fingerprint.
+ */
+export const readCacheEntries = async <T>(
+  rootDir: string,
+  name: string,
+  fingerprint: string,
+  logger?: Logger
+): Promise<Record<string, T> | undefined> => {
+  try {
+    const stored = JSON.parse(
+      await readFile(getCacheFilePath(rootDir, name), 'utf-8')
+    ) as Partial<CacheFileContent<T>>;
+    if (stored.fingerprint === fingerprint && stored.entries) {
+      return stored.entries;
+    }
+    logger?.debug(`Cache ${name} invalidated`);
+  } catch {
+    // Missing or corrupted cache, start from scratch.
+  }
+  return undefined;
+};
+
+/**
+ * Write entries of a named cache file
+ */
+export const writeCacheEntries = async <T>(
+  rootDir: string,
+  name: string,
+  fingerprint: string,
+  entries: Record<string, T>,
+  logger?: Logger
+): Promise<void> => {
+  const cachePath = getCacheFilePath(rootDir, name);
+  const content: CacheFileContent<T> = { fingerprint, entries };
+  try {
+    await mkdir(dirname(cachePath), { recursive: true });
+    await writeFile(cachePath, JSON.stringify(content), 'utf-8');
+  } catch (error) {
+    // The cache is only an optimisation, never fail the build on it.
+    const message = error instanceof Error ? error.message : String(error);
+    logger?.debug(`Could not write cache ${name}: ${message}`);
+  }
+};
+
+/**
+ * Per-file content hash cache persisted between builds
+ */
+export interface FileHashCache {
+  /**
+   * Check whether the file was processed with exactly this content last time
+   * @param file - Absolute path of the file
+   * @param hash - Hash of the current file content
+   */
+  readonly isFresh: (file: string, hash: string) => boolean;
+  /**
+   * Record the content hash of a file that needs no further processing
+   * @param file - Absolute path of the file
+   * @param hash - Hash of the resulting file content
+   */
+  readonly set: (file: string, hash: string) => void;
+  /**
+   * Persist recorded entries
+   * @param prune - Drop entries of files not recorded in this run
+   */
+  readonly save: (prune?: boolean) => Promise<void>;
+}
+
+/**
+ * Open a named file hash cache under the project cache directory.
+ * Entries are discarded when the stored fingerprint differs.
+ */
+export const openFileHashCache = async (
+  rootDir: string,
+  name: string,
+  fingerprint: string,
+  logger?: Logger
+): Promise<FileHashCache> => {
+  const toKey = (file: string) => relative(rootDir, file).split('\\').join('/');
+
+  const previous =
+    (await readCacheEntries<string>(rootDir, name, fingerprint, logger)) ?? {};
+  const next: Record<string, string> = {};
+
+  const isFresh = (file: string, hash: string): boolean =>
+    previous[toKey(file)] === hash;
+
+  const set = (file: string, hash: string): void => {
+    next[toKey(file)] = hash;
+  };
+
+  const save = (prune: boolean = true): Promise<void> =>
+    writeCacheEntries(
+      rootDir,
+      name,
+      fingerprint,
+      prune ? next : { ...previous, ...next },
+      logger
+    );
+
+  return { isFresh, set, save };
+};
@@ -4,59 +4,320 @@
 // https://github.com/kekyo/prettier-max/
 
 import { spawn } from 'child_process';
-import { join, dirname, resolve } from 'path';
+import { basename, join, dirname, resolve, relative, isAbsolute } from 'path';
 import { fileURLToPath } from 'url';
 import { existsSync } from 'fs';
 import { readFile } from 'fs/promises';
 type TS = typeof import('typescript');
 import type {
   DefaultImportDetectionMode,
+  Diagnostic,
+  DiagnosticFix,
+  DiagnosticRelatedInformation,
+  FormatMode,
   FormatResult,
-  PrettierError,
+  PrettierFormatOptions,
 } from './types.js';
 import type { Logger } from './logger.js';
+import {
+  collectProjectFiles,
+  findFirstDifference,
+  formatFilesWithApi,
+  loadPrettierApi,
+  type PrettierApi,
+  type PrettierPackageJson,
+} from './prettierApi.js';
+import { formatFilesInWorkers } from './workerPool.js';
+import {
+  createPrettierDiagnostic,
+  createPrettierMaxDiagnostic,
+  NOT_FORMATTED_MESSAGE,
+  type DiagnosticLocation,
+} from './diagnostics.js';
+import {
+  createFingerprint,
+  getCacheDirectory,
+  hashContent,
+  openFileHashCache,
+  readCacheEntries,
+  writeCacheEntries,
+} from './cache.js';
 
 /**
  * Run prettier format on entire project
  */
 export const runPrettierFormatProject = async (
   rootDir: string,
-  configPath: string | undefined
+  configPath: string | undefined,
+  options: PrettierFormatOptions = {}
 ): Promise<FormatResult> => {
+  const {
+    mode = 'write',
+    logger,
+    concurrency = 1,
+    cache = true,
+    files: scopedFiles,
+  } = options;
   const startTime = Date.now();
 
-  return new Promise(async (resolve) => {
-    const errors: PrettierError[] = [];
-    const formattedFiles: string[] = [];
-
-    // Build prettier command arguments
-    const args = ['--write', '.', '--list-different'];
+  const loaded = await loadResolvedPrettierApi(rootDir, logger);
+  if (!loaded) {
+    if (!scopedFiles) {
+      return runPrettierCli(rootDir, configPath, ['.'], mode);
+    }
+    const targets = toRelativeTargets(rootDir, scopedFiles);
+    if (targets.length === 0) {
+      return emptyFormatResult();
+    }
+    return runPrettierCli(
+      rootDir,
+      configPath,
+      ['--ignore-unknown', ...targets],
+      mode
+    );
+  }
 
-    if (configPath) {
-      args.push('--config', configPath);
+  // Scoped files still go through the project walk, so ignore files apply.
+  const projectFiles = await collectProjectFiles(rootDir);
+  const scoped = scopedFiles ? new Set(scopedFiles) : undefined;
+  const files = scoped
+    ? projectFiles.filter((file) => scoped.has(file))
+    : projectFiles;
+
+  // Skip files whose content was already formatted by a previous run.
+  const fileCache = cache
+    ? await openFileHashCache(
+        rootDir,
+        'format',
+        await createFormatFingerprint(
+          rootDir,
+          configPath,
+          loaded.version,
+          projectFiles
+        ),
+        logger
+      )
+    : undefined;
+  const hashes = new Map<string, string>();
+  const targets: string[] = [];
+  for (const file of files) {
+    if (!fileCache) {
+      targets.push(file);
+      continue;
+    }
+    const hash = hashContent(await readFile(file));
+    if (fileCache.isFresh(file, hash)) {
+      fileCache.set(file, hash);
+    } else {
+      hashes.set(file, hash);
+      targets.push(file);
     }
+  }
+  if (fileCache && targets.length < files.length) {
+    logger?.debug(
+      `Skipped ${files.length - targets.length} unchanged file(s) using the cache`
+    );
+  }
 
-    const resolvedBin = await resolvePrettierBin(rootDir);
+  const result = await formatFilesInWorkers({
+    prettier: loaded.api,
+    pkgDir: loaded.pkgDir,
+    pkg: loaded.pkg,
+    rootDir,
+    files: targets,
+    configPath,
+    mode,
+    concurrency,
+    logger,
+  });
 
-    if (!resolvedBin) {
-      const duration = Date.now() - startTime;
-      errors.push({
-        file: rootDir,
-        message:
-          'Unable to locate a Prettier CLI. Install Prettier in the project or rely on the bundled dependency.',
-      });
-      resolve({
-        success: false,
-        errors,
-        formattedFiles,
-        duration,
-      });
-      return;
+  if (fileCache) {
+    const failed = new Set(result.errors.map((error) => error.file));
+    const rewritten = new Set(result.formattedFiles);
+    for (const [file, hash] of hashes) {
+      if (failed.has(file)) {
+        continue;
+      }
+      fileCache.set(
+        file,
+        rewritten.has(file) ? hashContent(await readFile(file)) : hash
+      );
     }
+    // A scoped run only saw part of the project, keep the other entries.
+    await fileCache.save(!scopedFiles);
+  }
+
+  return { ...result, duration: Date.now() - startTime };
+};
+
+// Files that change how Prettier formats or which files it visits.
+const FORMAT_FINGERPRINT_FILENAMES = [
+  '.prettierrc',
+  '.prettierrc.json',
+  '.prettierrc.json5',
+  '.prettierrc.yaml',
+  '.prettierrc.yml',
+  '.prettierrc.toml',
+  '.prettierrc.js',
+  '.prettierrc.mjs',
+  '.prettierrc.cjs',
+  '.prettierrc.ts',
+  '.prettierrc.mts',
+  '.prettierrc.cts',
+  'prettier.config.js',
+  'prettier.config.mjs',
+  'prettier.config.cjs',
+  'prettier.config.ts',
+  'prettier.config.mts',
+  'prettier.config.cts',
+  '.editorconfig',
+  '.prettierignore',
+  '.gitignore',
+] as const;
+
+/**
+ * Fingerprint of everything besides file content that affects formatting
+ * @param projectFiles - Files of the project, whose nested config files
+ * apply to the files below them
+ */
+const createFormatFingerprint = async (
+  rootDir: string,
+  configPath: string | undefined,
+  prettierVersion: string | undefined,
+  projectFiles: readonly string[]
+): Promise<string> => {
+  // A "prettier" key in package.json is a config too, but the rest of
+  // package.json changes far too often to be hashed as a whole.
+  let packageConfig: string | undefined;
+  try {
+    const pkg = JSON.parse(
+      await readFile(join(rootDir, 'package.json'), 'utf-8')
+    ) as { prettier?: unknown };
+    packageConfig = JSON.stringify(pkg.prettier);
+  } catch {
+    packageConfig = undefined;
+  }
+
+  // Root files are listed even when missing, so adding one changes the hash.
+  const filePaths = FORMAT_FINGERPRINT_FILENAMES.map((fileName) =>
+    join(rootDir, fileName)
+  );
+  const rootFiles = new Set(filePaths);
+  const fingerprintNames = new Set<string>(FORMAT_FINGERPRINT_FILENAMES);
+  filePaths.push(
+    ...projectFiles.filter(
+      (file) => fingerprintNames.has(basename(file)) && !rootFiles.has(file)
+    )
+  );
+  if (configPath) {
+    filePaths.push(resolve(rootDir, configPath));
+  }
+  return createFingerprint([prettierVersion, packageConfig], filePaths);
+};
 
-    // Execute Prettier CLI via Node to ensure cross-platform
-    const prettierProcess = spawn(process.execPath, [resolvedBin, ...args], {
-      cwd: rootDir,
+/**
+ * Run prettier format on specific files under the project
+ */
+export const runPrettierFormatFiles = async (
+  rootDir: string,
+  configPath: string | undefined,
+  files: string[],
+  options: PrettierFormatOptions = {}
+): Promise<FormatResult> => {
+  const { mode = 'write', logger } = options;
+
+  const targets = toRelativeTargets(rootDir, files);
+  if (targets.length === 0) {
+    return emptyFormatResult();
+  }
+
+  const loaded = await loadResolvedPrettierApi(rootDir, logger);
+  if (loaded) {
+    return formatFilesWithApi(loaded.api, {
+      rootDir,
+      files: targets.map((target) => join(rootDir, target)),
+      configPath,
+      mode,
+    });
+  }
+
+  // Explicit targets may have no inferable parser, skip those silently.
+  return runPrettierCli(
+    rootDir,
+    configPath,
+    ['--ignore-unknown', ...targets],
+    mode
+  );
+};
+
+const emptyFormatResult = (): FormatResult => ({
+  success: true,
+  errors: [],
+  formattedFiles: [],
+  duration: 0,
+});
+
+/**
+ * Convert files to paths relative to rootDir, dropping those outside of it.
+ * Prettier prints paths relative to cwd, so passing them the same way keeps
+ * the --list-different output mappable back to absolute paths.
+ */
+const toRelativeTargets = (rootDir: string, files: string[]): string[] =>
+  files
+    .map((file) => relative(rootDir, resolve(rootDir, file)))
+    .filter((file) => file && !file.startsWith('..') && !isAbsolute(file));
+
+type LoadedPrettierApi = {
+  api: PrettierApi;
+  pkgDir: string;
+  pkg: PrettierPackageJson;
+  version: string | undefined;
+};
+
+/**
+ * Load the API of the resolved Prettier package, or undefined to use the CLI
+ */
+const loadResolvedPrettierApi = async (
+  rootDir: string,
+  logger: Logger | undefined
+): Promise<LoadedPrettierApi | undefined> => {
+  const resolved = await resolvePrettierPackage(rootDir, []);
+  if (!resolved) {
+    return undefined;
+  }
+  const api = await loadPrettierApi(resolved.pkgDir, resolved.pkg);
+  if (!api) {
+    logger?.debug(
+      `Prettier API is not available in ${resolved.pkgDir}, falling back to the CLI`
+    );
+    return undefined;
+  }
+  // Workers load the same package again from pkgDir/pkg.
+  return {
+    api,
+    pkgDir: resolved.pkgDir,
+    pkg: resolved.pkg,
+    version: resolved.pkg.version,
+  };
+};
+
+type PrettierProcessResult = {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+};
+
+/**
+ * Execute Prettier CLI via Node to ensure cross-platform
+ */
+const spawnPrettier = (
+  bin: string,
+  args: string[],
+  cwd: string
+): Promise<PrettierProcessResult> =>
+  new Promise((resolve, reject) => {
+    const prettierProcess = spawn(process.execPath, [bin, ...args], {
+      cwd,
     });
 
     let stdout = '';
@@ -71,62 +332,173 @@ export const runPrettierFormatProject = async (
     });
 
     prettierProcess.on('close', (code) => {
-      const duration = Date.now() - startTime;
+      resolve({ code, stdout, stderr });
+    });
 
-      // Code 0: All files formatted successfully
-      // Code 2: Something went wrong (e.g., invalid config)
+    prettierProcess.on('error', reject);
+  });
 
-      if (code === 2) {
-        // Configuration or other error
-        if (stderr) {
-          errors.push({
-            file: rootDir,
-            message: `Prettier error: ${stderr.trim()}`,
-          });
-        }
-        resolve({
-          success: false,
-          errors,
-          formattedFiles,
-          duration,
-        });
-        return;
+/**
+ * Build unformatted file errors, locating the first diverging position
+ */
+const collectCheckErrors = async (
+  bin: string,
+  rootDir: string,
+  configPath: string | undefined,
+  files: string[]
+): Promise<Diagnostic[]> => {
+  const errors: Diagnostic[] = [];
+
+  for (const file of files) {
+    const error = createPrettierDiagnostic(
+      file,
+      'PRETTIER001',
+      NOT_FORMATTED_MESSAGE
+    );
+    try {
+      // Print the formatted content to stdout; nothing is written back.
+      const args = [relative(rootDir, file)];
+      if (configPath) {
+        args.push('--config', configPath);
+      }
+      const { code, stdout } = await spawnPrettier(bin, args, rootDir);
+      if (code === 0) {
+        const original = await readFile(file, 'utf-8');
+        const { line, column } = findFirstDifference(original, stdout);
+        error.line = line;
+        error.column = column;
       }
+    } catch {
+      // Location is optional; still report the file itself
+    }
+    errors.push(error);
+  }
 
-      // Parse formatted files from stdout (listed by --list-different)
-      if (stdout) {
-        const lines = stdout.split('\n');
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed && !trimmed.startsWith('[')) {
-            formattedFiles.push(join(rootDir, trimmed));
-          }
-        }
+  return errors;
+};
+
+/**
+ * Run Prettier CLI against the given targets
+ */
+const runPrettierCli = async (
+  rootDir: string,
+  configPath: string | undefined,
+  targets: string[],
+  mode: FormatMode
+): Promise<FormatResult> => {
+  const startTime = Date.now();
+  const errors: Diagnostic[] = [];
+  const formattedFiles: string[] = [];
+
+  // Build prettier command arguments
+  const args =
+    mode === 'check'
+      ? [...targets, '--list-different']
+      : ['--write', ...targets, '--list-different'];
+
+  if (configPath) {
+    args.push('--config', configPath);
+  }
+
+  const resolvedBin = await resolvePrettierBin(rootDir);
+
+  if (!resolvedBin) {
+    errors.push(
+      createPrettierDiagnostic(
+        rootDir,
+        'PRETTIER003',
+        'Unable to locate a Prettier CLI. Install Prettier in the project or rely on the bundled dependency.'
+      )
+    );
+    return {
+      success: false,
+      errors,
+      formattedFiles,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  let result: PrettierProcessResult;
+  try {
+    result = await spawnPrettier(resolvedBin, args, rootDir);
+  } catch (error) {
+    errors.push(
+      createPrettierDiagnostic(
+        rootDir,
+        'PRETTIER003',
+        `Failed to run prettier: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+    return {
+      success: false,
+      errors,
+      formattedFiles,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  const { code, stdout, stderr } = result;
+
+  // Code 0: All files formatted successfully
+  // Code 1: Some files are not formatted (check mode)
+  // Code 2: Something went wrong (e.g., invalid config)
+
+  if (code === 2) {
+    // Configuration or other error
+    if (stderr) {
+      errors.push(
+        createPrettierDiagnostic(
+          rootDir,
+          'PRETTIER003',
+          `Prettier error: ${stderr.trim()}`
+        )
+      );
+    }
+    return {
+      success: false,
+      errors,
+      formattedFiles,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  // Parse listed files from stdout (listed by --list-different)
+  const listedFiles: string[] = [];
+  if (stdout) {
+    const lines = stdout.split('\n');
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('[')) {
+        listedFiles.push(join(rootDir, trimmed));
       }
+    }
+  }
 
-      resolve({
-        success: code === 0,
-        errors,
-        formattedFiles,
-        duration,
-      });
-    });
+  if (mode === 'check') {
+    errors.push(
+      ...(await collectCheckErrors(
+        resolvedBin,
+        rootDir,
+        configPath,
+        listedFiles
+      ))
+    );
+    return {
+      success: errors.length === 0,
+      errors,
+      formattedFiles,
+      duration: Date.now() - startTime,
+    };
+  }
 
-    prettierProcess.on('error', (error) => {
-      const duration = Date.now() - startTime;
-      errors.push({
-        file: rootDir,
-        message: `Failed to run prettier: ${error.message}`,
-      });
+  formattedFiles.push(...listedFiles);
 
-      resolve({
-        success: false,
-        errors,
-        formattedFiles,
-        duration,
-      });
-    });
-  });
+  return {
+    success: code === 0,
+    errors,
+    formattedFiles,
+    duration: Date.now() - startTime,
+  };
 };
 
 /**
@@ -210,6 +582,8 @@ type PrettierPackageInfo = {
   pkg: {
     version?: string;
     bin?: string | { [name: string]: string };
+    main?: string;
+    exports?: unknown;
   };
 };
 
@@ -276,7 +650,7 @@ export const getTypeScriptVersion = async (): Promise<string | undefined> => {
 };
 
 // Dynamically load TypeScript module if available
-const loadTypeScript = async (): Promise<TS | undefined> => {
+export const loadTypeScript = async (): Promise<TS | undefined> => {
   try {
     const mod: any = await import('typescript');
     return (mod?.default ?? mod) as TS;
@@ -285,14 +659,70 @@ const loadTypeScript = async (): Promise<TS | undefined> => {
   }
 };
 
+/**
+ * 1-based start and exclusive end of a text range
+ */
+const getRangeLocation = (
+  sourceFile: import('typescript').SourceFile,
+  start: number,
+  end: number
+): Required<DiagnosticLocation> => {
+  const startPosition = sourceFile.getLineAndCharacterOfPosition(start);
+  const endPosition = sourceFile.getLineAndCharacterOfPosition(end);
+  return {
+    line: startPosition.line + 1,
+    column: startPosition.character + 1,
+    endLine: endPosition.line + 1,
+    endColumn: endPosition.character + 1,
+  };
+};
+
+const getNodeLocation = (
+  node: import('typescript').Node
+): Required<DiagnosticLocation> =>
+  getRangeLocation(node.getSourceFile(), node.getStart(), node.getEnd());
+
+/**
+ * Remove a suppression directive, with its whole line when nothing else is on it
+ */
+const createDirectiveRemovalFix = (
+  sourceFile: import('typescript').SourceFile,
+  comment: import('typescript').CommentRange
+): DiagnosticFix => {
+  const text = sourceFile.text;
+  const lineStart = text.lastIndexOf('\n', comment.pos - 1) + 1;
+  const ownLine = text.slice(lineStart, comment.pos).trim() === '';
+  let start = comment.pos;
+  let end = comment.end;
+  if (ownLine) {
+    const lineEnd = text.indexOf('\n', comment.end);
+    start = lineStart;
+    end = lineEnd < 0 ? text.length : lineEnd + 1;
+  } else {
+    while (start > lineStart && /[ \t]/.test(text[start - 1]!)) {
+      start--;
+    }
+  }
+  return {
+    description: 'Remove the unnecessary directive',
+    edits: [
+      {
+        file: sourceFile.fileName,
+        ...getRangeLocation(sourceFile, start, end),
+        newText: '',
+      },
+    ],
+  };
+};
+
 const createDefaultImportDetector = (
   ts: typeof import('typescript'),
   detectDefaultImport: DefaultImportDetectionMode
 ): {
   detectInNode: (node: import('typescript').Node) => void;
-  warnings: PrettierError[];
+  warnings: Diagnostic[];
 } => {
-  const warnings: PrettierError[] = [];
+  const warnings: Diagnostic[] = [];
   const checkedLocations = new Set<string>();
 
   if (detectDefaultImport === 'none') {
@@ -307,25 +737,18 @@ const createDefaultImportDetector = (
     detail?: string
   ): void => {
     const sourceFile = node.getSourceFile();
-    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
-      node.getStart()
+    const warning = createPrettierMaxDiagnostic(
+      sourceFile.fileName,
+      'PMAX003',
+      `Default ${kind} detected${detail ? ` (${detail})` : ''}`,
+      getNodeLocation(node)
     );
-    const message = `PMAX003: Default ${kind} detected${
-      detail ? ` (${detail})` : ''
-    }`;
-    const locationKey = `${sourceFile.fileName}:${line + 1}:${
-      character + 1
-    }:${message}`;
+    const locationKey = `${warning.file}:${warning.line}:${warning.column}:${warning.message}`;
     if (checkedLocations.has(locationKey)) {
       return;
     }
     checkedLocations.add(locationKey);
-    warnings.push({
-      file: sourceFile.fileName,
-      line: line + 1,
-      column: character + 1,
-      message,
-    });
+    warnings.push(warning);
   };
 
   const isDefaultSpecifierName = (
@@ -456,11 +879,19 @@ const createDefaultImportDetector = (
   };
 };
 
+/**
+ * Decide whether a source file should be visited by the PMAX passes
+ */
+export type SourceFileFilter = (
+  sourceFile: import('typescript').SourceFile
+) => boolean;
+
 const checkDefaultImportUsage = (
   ts: typeof import('typescript'),
   program: import('typescript').Program,
-  detectDefaultImport: DefaultImportDetectionMode
-): PrettierError[] => {
+  detectDefaultImport: DefaultImportDetectionMode,
+  shouldCheck: SourceFileFilter = () => true
+): Diagnostic[] => {
   if (detectDefaultImport === 'none') {
     return [];
   }
@@ -470,7 +901,8 @@ const checkDefaultImportUsage = (
   for (const sourceFile of program.getSourceFiles()) {
     if (
       sourceFile.fileName.includes('node_modules') ||
-      sourceFile.isDeclarationFile
+      sourceFile.isDeclarationFile ||
+      !shouldCheck(sourceFile)
     ) {
       continue;
     }
@@ -494,9 +926,10 @@ const checkDeprecatedUsage = (
   program: import('typescript').Program,
   checker: import('typescript').TypeChecker,
   logger: Logger | undefined,
-  detectDefaultImport: DefaultImportDetectionMode
-): PrettierError[] => {
-  const deprecationWarnings: PrettierError[] = [];
+  detectDefaultImport: DefaultImportDetectionMode,
+  shouldCheck: SourceFileFilter = () => true
+): Diagnostic[] => {
+  const deprecationWarnings: Diagnostic[] = [];
   const defaultImportDetector = createDefaultImportDetector(
     ts,
     detectDefaultImport
@@ -504,6 +937,10 @@ const checkDeprecatedUsage = (
   const checkedLocations = new Set<string>(); // "filename:line:column" format
   const suppressedLines = new Map<string, Set<number>>(); // filename -> line numbers
   const usedSuppressions = new Set<string>(); // "filename:line" format
+  const suppressionComments = new Map<
+    string,
+    import('typescript').CommentRange
+  >(); // "filename:line" of the suppressed line -> directive comment
   type DeprecationInfo = {
     isDeprecated: boolean;
     message: string | undefined;
@@ -719,10 +1156,11 @@ const checkDeprecatedUsage = (
 
   // Visit each source file
   for (const sourceFile of program.getSourceFiles()) {
-    // Skip node_modules and declaration files
+    // Skip node_modules, declaration files and files unaffected since the last run
     if (
       sourceFile.fileName.includes('node_modules') ||
-      sourceFile.isDeclarationFile
+      sourceFile.isDeclarationFile ||
+      !shouldCheck(sourceFile)
     ) {
       continue;
     }
@@ -760,6 +1198,10 @@ const checkDeprecatedUsage = (
               suppressedLines.set(sourceFile.fileName, new Set());
             }
             suppressedLines.get(sourceFile.fileName)!.add(nextLine);
+            suppressionComments.set(
+              `${sourceFile.fileName}:${nextLine}`,
+              comment
+            );
 
             if (logger) {
               const note = match[1] ? `: ${match[1].trim()}` : '';
@@ -780,10 +1222,8 @@ const checkDeprecatedUsage = (
       messageSuffix?: string
     ): void => {
       const sourceFile = locationNode.getSourceFile();
-      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
-        locationNode.getStart()
-      );
-      const actualLine = line + 1;
+      const location = getNodeLocation(locationNode);
+      const actualLine = location.line;
       const isSuppressed =
         suppressedLines.get(sourceFile.fileName)?.has(actualLine) || false;
 
@@ -797,25 +1237,25 @@ const checkDeprecatedUsage = (
         return;
       }
 
-      const message = `PMAX001: '${displayName}' is deprecated${
-        messageSuffix ? `: ${messageSuffix}` : ''
-      }`;
+      const warning = createPrettierMaxDiagnostic(
+        sourceFile.fileName,
+        'PMAX001',
+        `'${displayName}' is deprecated${
+          messageSuffix ? `: ${messageSuffix}` : ''
+        }`,
+        location
+      );
 
       // Avoid duplicate warnings at the same location with identical message
       const alreadyAdded = deprecationWarnings.some(
-        (warning) =>
-          warning.file === sourceFile.fileName &&
-          warning.line === actualLine &&
-          warning.message === message
+        (existing) =>
+          existing.file === warning.file &&
+          existing.line === actualLine &&
+          existing.message === warning.message
       );
 
       if (!alreadyAdded) {
-        deprecationWarnings.push({
-          file: sourceFile.fileName,
-          line: actualLine,
-          column: character + 1,
-          message,
-        });
+        deprecationWarnings.push(warning);
       }
     };
 
@@ -1414,11 +1854,19 @@ const checkDeprecatedUsage = (
         // Find the directive comment position (it's on the line before)
         const sourceFile = program.getSourceFile(fileName);
         if (sourceFile) {
+          const comment = suppressionComments.get(suppressionKey);
           deprecationWarnings.push({
-            file: fileName,
-            line: line - 1, // Report on the directive line itself
-            column: 1,
-            message: `PMAX002: Unnecessary @prettier-max-ignore-deprecated directive - no deprecated usage found on the next line`,
+            ...createPrettierMaxDiagnostic(
+              fileName,
+              'PMAX002',
+              'Unnecessary @prettier-max-ignore-deprecated directive - no deprecated usage found on the next line',
+              comment
+                ? getRangeLocation(sourceFile, comment.pos, comment.end)
+                : { line: line - 1, column: 1 } // Report on the directive line itself
+            ),
+            fix: comment
+              ? createDirectiveRemovalFix(sourceFile, comment)
+              : undefined,
           });
         }
       }
@@ -1428,6 +1876,251 @@ const checkDeprecatedUsage = (
   return deprecationWarnings.concat(defaultImportDetector.warnings);
 };
 
+/**
+ * Resolve sources of referenced projects instead of their declaration output.
+ * The output does not exist under noEmit, so without this every import from
+ * a referenced project fails with TS6305. This is the same host switch the
+ * language service uses; the referenced files are checked by their own project.
+ */
+export const enableSourceOfProjectReferenceRedirect = <
+  T extends import('typescript').BuilderProgram,
+>(
+  host:
+    | import('typescript').CompilerHost
+    | import('typescript').WatchCompilerHost<T>
+): void => {
+  (
+    host as { useSourceOfProjectReferenceRedirect?: () => boolean }
+  ).useSourceOfProjectReferenceRedirect = () => true;
+};
+
+/**
+ * Create a filter rejecting source files owned by referenced projects,
+ * so their PMAX findings are reported by their own tsconfig only
+ */
+export const createOwnFileFilter = (
+  program: import('typescript').Program
+): SourceFileFilter => {
+  const referencedFiles = new Set<string>();
+  const visit = (
+    references:
+      | readonly (import('typescript').ResolvedProjectReference | undefined)[]
+      | undefined
+  ): void => {
+    for (const reference of references ?? []) {
+      if (!reference) {
+        continue;
+      }
+      for (const fileName of reference.commandLine.fileNames) {
+        referencedFiles.add(resolve(fileName));
+      }
+      visit(reference.references);
+    }
+  };
+  visit(program.getResolvedProjectReferences());
+
+  return (sourceFile) => !referencedFiles.has(resolve(sourceFile.fileName));
+};
+
+/**
+ * Parse a tsconfig, or return undefined when it cannot be read
+ */
+const parseTsconfig = (
+  ts: TS,
+  configFileName: string
+): import('typescript').ParsedCommandLine | undefined => {
+  const configFile = ts.readConfigFile(configFileName, ts.sys.readFile);
+  if (configFile.error) {
+    return undefined;
+  }
+  return ts.parseJsonConfigFileContent(
+    configFile.config,
+    ts.sys,
+    dirname(configFileName)
+  );
+};
+
+/**
+ * Expand tsconfig files with the projects they reference, referenced
+ * projects first. Solution-style configs that only hold references are
+ * replaced by them. Unreadable configs are kept, so validation reports them.
+ * Returns undefined when the default tsconfig.json has no references,
+ * leaving its lookup to the validation itself.
+ */
+export const expandProjectReferences = async (
+  rootDir: string,
+  tsconfigPaths: string[] | undefined
+): Promise<string[] | undefined> => {
+  const ts = await loadTypeScript();
+  if (!ts) {
+    return tsconfigPaths;
+  }
+
+  const rootConfigs =
+    tsconfigPaths ??
+    [ts.findConfigFile(rootDir, ts.sys.fileExists, 'tsconfig.json')].filter(
+      (configPath): configPath is string => !!configPath
+    );
+
+  const expanded: string[] = [];
+  const visited = new Set<string>();
+  let hasReferences = false;
+
+  const visit = (configPath: string): void => {
+    const resolvedPath = resolve(rootDir, configPath);
+    if (visited.has(resolvedPath)) {
+      return;
+    }
+    visited.add(resolvedPath);
+
+    const parsed = ts.sys.fileExists(resolvedPath)
+      ? parseTsconfig(ts, resolvedPath)
+      : undefined;
+    const references = parsed?.projectReferences ?? [];
+    for (const reference of references) {
+      hasReferences = true;
+      visit(ts.resolveProjectReferencePath(reference));
+    }
+    if (parsed && parsed.fileNames.length === 0 && references.length > 0) {
+      return;
+    }
+    expanded.push(resolvedPath);
+  };
+
+  for (const configPath of rootConfigs) {
+    visit(configPath);
+  }
+
+  return tsconfigPaths || hasReferences ? expanded : undefined;
+};
+
+const toRelatedInformation = (
+  ts: TS,
+  related: import('typescript').DiagnosticRelatedInformation,
+  cwd: string
+): DiagnosticRelatedInformation => {
+  const message = ts.flattenDiagnosticMessageText(related.messageText, '\n');
+  if (!related.file) {
+    return { file: cwd, message };
+  }
+  const start = related.start ?? 0;
+  return {
+    file: resolve(cwd, related.file.fileName),
+    ...getRangeLocation(related.file, start, start + (related.length ?? 0)),
+    message,
+  };
+};
+
+/**
+ * Convert one TypeScript diagnostic, with absolute paths like the other
+ * diagnostics
+ */
+const toTypeScriptDiagnostic = (
+  ts: TS,
+  diagnostic: import('typescript').Diagnostic,
+  cwd: string,
+  fallbackFile: string
+): Diagnostic => {
+  const code = `TS${diagnostic.code}`;
+  const messageText = ts.flattenDiagnosticMessageText(
+    diagnostic.messageText,
+    '\n'
+  );
+  const start = diagnostic.start ?? 0;
+  return {
+    file: diagnostic.file
+      ? resolve(cwd, diagnostic.file.fileName)
+      : resolve(cwd, fallbackFile),
+    ...(diagnostic.file
+      ? getRangeLocation(
+          diagnostic.file,
+          start,
+          start + (diagnostic.length ?? 0)
+        )
+      : {}),
+    message: `${code}: ${messageText}`,
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Error
+        ? 'error'
+        : diagnostic.category === ts.DiagnosticCategory.Warning
+          ? 'warning'
+          : 'info',
+    code,
+    source: 'typescript',
+    messageText,
+    relatedInformation: diagnostic.relatedInformation?.map((related) =>
+      toRelatedInformation(ts, related, cwd)
+    ),
+  };
+};
+
+/**
+ * Diagnostic for a missing tsconfig, using the matching tsc code
+ */
+const createConfigDiagnostic = (
+  file: string,
+  code: string,
+  messageText: string
+): Diagnostic => ({
+  file,
+  message: messageText,
+  severity: 'error',
+  code,
+  source: 'typescript',
+  messageText,
+});
+
+/**
+ * Convert TypeScript errors located in a file to diagnostics.
+ * Like the tsc output they replace, other categories and diagnostics
+ * without a file are left out.
+ */
+export const convertTypeScriptDiagnostics = (
+  ts: TS,
+  diagnostics: readonly import('typescript').Diagnostic[],
+  cwd: string
+): Diagnostic[] =>
+  diagnostics
+    .filter(
+      (diagnostic) =>
+        diagnostic.file && diagnostic.category === ts.DiagnosticCategory.Error
+    )
+    .map((diagnostic) => toTypeScriptDiagnostic(ts, diagnostic, cwd, cwd));
+
+/**
+ * Run the deprecated symbol and default import passes (PMAX001-PMAX003)
+ */
+export const collectCustomWarnings = (
+  ts: TS,
+  program: import('typescript').Program,
+  logger: Logger | undefined,
+  detectDeprecated: boolean,
+  detectDefaultImport: DefaultImportDetectionMode,
+  shouldCheck: SourceFileFilter = () => true
+): Diagnostic[] => {
+  if (detectDeprecated) {
+    // Get TypeChecker only when needed for deprecated detection
+    const checker = program.getTypeChecker();
+    return checkDeprecatedUsage(
+      ts,
+      program,
+      checker,
+      logger,
+      detectDefaultImport,
+      shouldCheck
+    );
+  }
+  if (detectDefaultImport !== 'none') {
+    return checkDefaultImportUsage(
+      ts,
+      program,
+      detectDefaultImport,
+      shouldCheck
+    );
+  }
+  return [];
+};
+
 /**
  * Run TypeScript type checking using TypeScript Compiler API
  */
@@ -1436,10 +2129,11 @@ export const runTypeScriptCheck = async (
   detectDeprecated: boolean = true,
   logger?: Logger,
   configPath?: string,
-  detectDefaultImport: DefaultImportDetectionMode = 'none'
+  detectDefaultImport: DefaultImportDetectionMode = 'none',
+  cache: boolean = true
 ): Promise<FormatResult> => {
   const startTime = Date.now();
-  const errors: PrettierError[] = [];
+  const errors: Diagnostic[] = [];
 
   try {
     const ts = await loadTypeScript();
@@ -1459,10 +2153,11 @@ export const runTypeScriptCheck = async (
         return {
           success: false,
           errors: [
-            {
-              file: configFileName,
-              message: 'Provided tsconfig.json was not found',
-            },
+            createConfigDiagnostic(
+              configFileName,
+              'TS5058',
+              'Provided tsconfig.json was not found'
+            ),
           ],
           formattedFiles: [],
           duration: Date.now() - startTime,
@@ -1479,10 +2174,11 @@ export const runTypeScriptCheck = async (
         return {
           success: false,
           errors: [
-            {
-              file: cwd,
-              message: 'Could not find a valid tsconfig.json',
-            },
+            createConfigDiagnostic(
+              cwd,
+              'TS5057',
+              'Could not find a valid tsconfig.json'
+            ),
           ],
           formattedFiles: [],
           duration: Date.now() - startTime,
@@ -1493,32 +2189,9 @@ export const runTypeScriptCheck = async (
     // Read and parse tsconfig.json
     const configFile = ts.readConfigFile(configFileName, ts.sys.readFile);
     if (configFile.error) {
-      const formatted = ts.formatDiagnostic(configFile.error, {
-        getCurrentDirectory: () => cwd,
-        getCanonicalFileName: (fileName) => fileName,
-        getNewLine: () => ts.sys.newLine,
-      });
-
-      // Parse formatted error to extract components
-      const lines = formatted.split('\n');
-      for (const line of lines) {
-        const match = line.match(
-          /^(.+?)\((\d+),(\d+)\):\s+error\s+(TS\d+):\s+(.+)$/
-        );
-        if (match && match[1] && match[2] && match[3] && match[4] && match[5]) {
-          errors.push({
-            file: match[1],
-            line: parseInt(match[2], 10),
-            column: parseInt(match[3], 10),
-            message: `${match[4]}: ${match[5]}`,
-          });
-        } else if (line.trim()) {
-          errors.push({
-            file: configFileName,
-            message: line.trim(),
-          });
-        }
-      }
+      errors.push(
+        toTypeScriptDiagnostic(ts, configFile.error, cwd, configFileName)
+      );
 
       return {
         success: false,
@@ -1538,76 +2211,148 @@ export const runTypeScriptCheck = async (
     // Set noEmit to true to match tsc --noEmit behavior
     parsedCommandLine.options.noEmit = true;
 
-    // Create TypeScript program
-    const program = ts.createProgram(
-      parsedCommandLine.fileNames,
-      parsedCommandLine.options
-    );
-
-    // Get all diagnostics
-    const allDiagnostics = ts
-      .getPreEmitDiagnostics(program)
-      .concat(program.getConfigFileParsingDiagnostics());
-
-    // Format diagnostics to match tsc output format
-    if (allDiagnostics.length > 0) {
-      const formatHost: import('typescript').FormatDiagnosticsHost = {
-        getCurrentDirectory: () => cwd,
-        getCanonicalFileName: (fileName) => fileName,
-        getNewLine: () => ts.sys.newLine,
-      };
-
-      // Format diagnostics with color and context (same as tsc)
-      const formatted = ts.formatDiagnosticsWithColorAndContext(
-        allDiagnostics,
-        formatHost
+    // Build info lives in our cache directory, never next to the user's
+    // own incremental output.
+    const cacheName = cache
+      ? `typescript/${hashContent(resolve(configFileName)).slice(0, 16)}`
+      : undefined;
+    if (cacheName) {
+      parsedCommandLine.options.incremental = true;
+      parsedCommandLine.options.tsBuildInfoFile = join(
+        getCacheDirectory(cwd),
+        `${cacheName}.tsbuildinfo`
       );
+    }
 
-      // Parse formatted output to extract error components
-      const lines = formatted.split('\n');
-      for (const line of lines) {
-        // Remove ANSI color codes
-        const cleanLine = line.replace(/\x1b\[[0-9;]*m/g, '');
+    // Create TypeScript program
+    const host = cacheName
+      ? ts.createIncrementalCompilerHost(parsedCommandLine.options)
+      : ts.createCompilerHost(parsedCommandLine.options);
+    enableSourceOfProjectReferenceRedirect(host);
+    const builder = cacheName
+      ? ts.createIncrementalProgram({
+          rootNames: parsedCommandLine.fileNames,
+          options: parsedCommandLine.options,
+          projectReferences: parsedCommandLine.projectReferences,
+          host,
+        })
+      : undefined;
+    const program = builder
+      ? builder.getProgram()
+      : ts.createProgram({
+          rootNames: parsedCommandLine.fileNames,
+          options: parsedCommandLine.options,
+          projectReferences: parsedCommandLine.projectReferences,
+          host,
+        });
 
-        // TypeScript error format: file(line,column): error TSxxxx: message
-        const match = cleanLine.match(
-          /^(.+?):(\d+):(\d+)\s+-\s+error\s+(TS\d+):\s+(.+)$/
-        );
-        if (match && match[1] && match[2] && match[3] && match[4] && match[5]) {
-          errors.push({
-            file: match[1],
-            line: parseInt(match[2], 10),
-            column: parseInt(match[3], 10),
-            message: `${match[4]}: ${match[5]}`,
-          });
+    // Walk the files affected since the previous build; undefined means
+    // everything is affected (first build, options changed...).
+    let affectedFiles: Set<string> | undefined;
+    if (builder) {
+      affectedFiles = new Set();
+      while (true) {
+        const next = builder.getSemanticDiagnosticsOfNextAffectedFile();
+        if (!next) {
+          break;
+        }
+        if (next.affected === program) {
+          affectedFiles = undefined;
+          break;
         }
+        affectedFiles.add(
+          (next.affected as import('typescript').SourceFile).fileName
+        );
       }
     }
 
-    const shouldCheckDefaultImport = detectDefaultImport !== 'none';
-
-    if (detectDeprecated) {
-      // Get TypeChecker only when needed for deprecated detection
-      const checker = program.getTypeChecker();
-      const deprecationWarnings = checkDeprecatedUsage(
-        ts,
-        program,
-        checker,
-        logger,
-        detectDefaultImport
-      );
+    // Get all diagnostics; the builder answers unaffected files from build info.
+    const allDiagnostics: readonly import('typescript').Diagnostic[] = builder
+      ? ts.sortAndDeduplicateDiagnostics([
+          ...builder.getConfigFileParsingDiagnostics(),
+          ...builder.getOptionsDiagnostics(),
+          ...builder.getSyntacticDiagnostics(),
+          ...builder.getGlobalDiagnostics(),
+          ...builder.getSemanticDiagnostics(),
+        ])
+      : ts
+          .getPreEmitDiagnostics(program)
+          .concat(program.getConfigFileParsingDiagnostics());
 
-      // Add deprecation warnings to errors
-      errors.push(...deprecationWarnings);
-    } else if (shouldCheckDefaultImport) {
-      const defaultImportWarnings = checkDefaultImportUsage(
-        ts,
-        program,
-        detectDefaultImport
+    // Format diagnostics to match tsc output format
+    errors.push(...convertTypeScriptDiagnostics(ts, allDiagnostics, cwd));
+
+    // PMAX results of unaffected files are replayed from the cache, so the
+    // custom passes only visit affected files.
+    const pmaxFingerprint = cacheName
+      ? await createFingerprint(
+          [ts.version, String(detectDeprecated), detectDefaultImport],
+          []
+        )
+      : undefined;
+    const cachedWarnings =
+      cacheName && pmaxFingerprint && affectedFiles
+        ? await readCacheEntries<Diagnostic[]>(
+            cwd,
+            `${cacheName}.pmax`,
+            pmaxFingerprint,
+            logger
+          )
+        : undefined;
+    const isOwnFile = createOwnFileFilter(program);
+    const shouldCheck: SourceFileFilter = (sourceFile) =>
+      isOwnFile(sourceFile) &&
+      (!cachedWarnings || !!affectedFiles?.has(sourceFile.fileName));
+
+    let warnings = collectCustomWarnings(
+      ts,
+      program,
+      logger,
+      detectDeprecated,
+      detectDefaultImport,
+      shouldCheck
+    );
+
+    if (cacheName && pmaxFingerprint) {
+      const freshWarnings = new Map<string, Diagnostic[]>();
+      for (const warning of warnings) {
+        const list = freshWarnings.get(warning.file);
+        if (list) {
+          list.push(warning);
+        } else {
+          freshWarnings.set(warning.file, [warning]);
+        }
+      }
+      // Keep program order so merged output does not depend on what changed.
+      const entries: Record<string, Diagnostic[]> = {};
+      for (const sourceFile of program.getSourceFiles()) {
+        const fileWarnings = shouldCheck(sourceFile)
+          ? freshWarnings.get(sourceFile.fileName)
+          : cachedWarnings?.[sourceFile.fileName];
+        if (fileWarnings) {
+          entries[sourceFile.fileName] = fileWarnings;
+        }
+      }
+      await writeCacheEntries(
+        cwd,
+        `${cacheName}.pmax`,
+        pmaxFingerprint,
+        entries,
+        logger
       );
-      errors.push(...defaultImportWarnings);
+      if (cachedWarnings) {
+        warnings = Object.values(entries).flat();
+      }
     }
 
+    // Add deprecation and default import warnings to errors
+    errors.push(...warnings);
+
+    // Written last, so an interrupted run never leaves build info that
+    // claims files were checked while their PMAX results are missing.
+    // With noEmit, this only writes the build info.
+    builder?.emit();
+
     return {
       success: errors.length === 0,
       errors,
@@ -1616,9 +2361,10 @@ export const runTypeScriptCheck = async (
     };
   } catch (error) {
     const duration = Date.now() - startTime;
+    const messageText = `Failed to run TypeScript check: ${error instanceof Error ? error.message : String(error)}`;
     errors.push({
-      file: cwd,
-      message: `Failed to run TypeScript check: ${error instanceof Error ? error.message : String(error)}`,
+      ...createPrettierMaxDiagnostic(cwd, 'PMAX000', messageText),
+      message: messageText,
     });
 
     return {
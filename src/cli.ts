@@ -0,0 +1,400 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { resolve } from 'path';
+import type {
+  PrettierMaxOptions,
+  ErrorReporter,
+  FileScope,
+  RuleSeverity,
+  BannerMode,
+  BannerStyle,
+} from './types.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { ConsoleReporter } from './reporters/console.js';
+import { SarifReporter } from './reporters/sarif.js';
+import { JUnitReporter } from './reporters/junit.js';
+import { JsonReporter } from './reporters/json.js';
+import { isRuleId } from './diagnostics.js';
+import { version } from './generated/packageMetadata.js';
+import { runPrettierMax } from './pipeline.js';
+
+/**
+ * Process exit codes of the command line interface
+ * - `0`: every check passed, warnings included
+ * - `1`: formatting or validation reported errors
+ * - `2`: invalid arguments, or the checks could not run
+ */
+export const EXIT_SUCCESS = 0;
+export const EXIT_PROBLEMS = 1;
+export const EXIT_FAILURE = 2;
+
+export type CliReporterKind = 'console' | 'sarif' | 'junit' | 'json';
+
+/**
+ * Reporter selected with `--reporter <kind>[=<path>]`
+ */
+export interface CliReporterSpec {
+  kind: CliReporterKind;
+  outputPath?: string;
+}
+
+/**
+ * Parsed command line
+ */
+export interface CliArguments {
+  /**
+   * Project root, resolved from the current directory
+   */
+  rootDir: string;
+  options: PrettierMaxOptions;
+  reporters: CliReporterSpec[];
+  verbose: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+const USAGE = `Usage: prettier-max [options]
+
+Formats the project, inserts banners and validates TypeScript like the Vite
+plugin does on build start.
+
+Options:
+  --root <dir>                     Project root (default: current directory)
+  --check                          Report unformatted files instead of rewriting them
+  --no-format                      Skip formatting and the validation after it
+  --no-fail-on-error               Exit with 0 even when errors were found
+  --config <path>                  Prettier config file
+  --no-generate-config             Do not generate .prettierrc and .prettierignore
+  --concurrency <n>                Worker threads used for formatting
+  --typescript <tsconfig>          tsconfig file to validate, repeatable
+  --no-typescript                  Skip TypeScript validation
+  --typescript-concurrency <n>     tsconfig files validated in parallel
+  --no-detect-deprecated           Skip deprecated symbol detection
+  --detect-default-import <mode>   none, exceptType or all
+  --rule <id>=<severity>           Rule severity (error, warn or off), repeatable
+  --banner-extensions <list>       Comma separated extensions for banners
+  --banner <mode>                  Banner mode: apply, check or remove
+  --banner-style <ext>=<style>     Banner comment style (line, block, jsdoc,
+                                   html or hash) of an extension, repeatable
+  --scope <scope>                  all, staged, changed or since:<ref>
+  --no-cache                       Do not use the persistent cache
+  --code-frame                     Print source around console diagnostics
+  --reporter <kind>[=<path>]       console, sarif, junit or json, repeatable
+  --verbose                        Print debug messages
+  -h, --help                       Show this help
+  -v, --version                    Show the version
+
+Exit codes: 0 passed, 1 problems found, 2 invalid arguments or failure.
+With --no-fail-on-error, errors are printed and the exit code is 0.`;
+
+const REPORTER_KINDS: readonly CliReporterKind[] = [
+  'console',
+  'sarif',
+  'junit',
+  'json',
+];
+
+const RULE_SEVERITIES: readonly RuleSeverity[] = ['error', 'warn', 'off'];
+const BANNER_MODES: readonly BannerMode[] = ['apply', 'check', 'remove'];
+const BANNER_STYLES: readonly BannerStyle[] = [
+  'line',
+  'block',
+  'jsdoc',
+  'html',
+  'hash',
+];
+
+const parseCount = (name: string, value: string): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${name} expects a positive integer: ${value}`);
+  }
+  return count;
+};
+
+const parseScope = (value: string): FileScope => {
+  if (value === 'all' || value === 'staged' || value === 'changed') {
+    return value;
+  }
+  if (value.startsWith('since:') && value.length > 'since:'.length) {
+    return { since: value.slice('since:'.length) };
+  }
+  throw new Error(
+    `--scope expects all, staged, changed or since:<ref>: ${value}`
+  );
+};
+
+/**
+ * Parse command line arguments, without the node and script paths.
+ * Values are given as `--name value` or `--name=value`.
+ * @throws Error describing the first invalid argument
+ */
+export const parseCliArguments = (
+  args: readonly string[],
+  cwd: string = process.cwd()
+): CliArguments => {
+  const options: PrettierMaxOptions = {};
+  const reporters: CliReporterSpec[] = [];
+  const tsconfigPaths: string[] = [];
+  let root = '.';
+  let verbose = false;
+  let help = false;
+  let showVersion = false;
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    const separator = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = separator >= 0 ? arg.slice(0, separator) : arg;
+    const takeValue = (): string => {
+      if (separator >= 0) {
+        return arg.slice(separator + 1);
+      }
+      const value = args[++index];
+      if (value === undefined) {
+        throw new Error(`${name} expects a value`);
+      }
+      return value;
+    };
+
+    switch (name) {
+      case '--root':
+        root = takeValue();
+        break;
+      case '--check':
+        options.mode = 'check';
+        break;
+      case '--no-format':
+        options.formatOnBuild = false;
+        break;
+      case '--no-fail-on-error':
+        options.failOnError = false;
+        break;
+      case '--config':
+        options.configPath = takeValue();
+        break;
+      case '--no-generate-config':
+        options.generatePrettierConfig = false;
+        break;
+      case '--concurrency':
+        options.concurrency = parseCount(name, takeValue());
+        break;
+      case '--typescript':
+        tsconfigPaths.push(takeValue());
+        break;
+      case '--no-typescript':
+        options.typescript = false;
+        break;
+      case '--typescript-concurrency':
+        options.typescriptConcurrency = parseCount(name, takeValue());
+        break;
+      case '--no-detect-deprecated':
+        options.detectDeprecated = false;
+        break;
+      case '--detect-default-import': {
+        const mode = takeValue();
+        if (mode !== 'none' && mode !== 'exceptType' && mode !== 'all') {
+          throw new Error(
+            `--detect-default-import expects none, exceptType or all: ${mode}`
+          );
+        }
+        options.detectDefaultImport = mode;
+        break;
+      }
+      case '--rule': {
+        const value = takeValue();
+        const [ruleId, severity] = value.split('=');
+        if (
+          !ruleId ||
+          !isRuleId(ruleId) ||
+          !RULE_SEVERITIES.includes(severity as RuleSeverity)
+        ) {
+          throw new Error(
+            `--rule expects <PMAX001|PMAX002|PMAX003>=<error|warn|off>: ${value}`
+          );
+        }
+        options.rules = {
+          ...options.rules,
+          [ruleId]: severity as RuleSeverity,
+        };
+        break;
+      }
+      case '--banner-extensions':
+        options.bannerExtensions = takeValue()
+          .split(',')
+          .map((extension) => extension.trim())
+          .filter((extension) => extension);
+        break;
+      case '--banner-style': {
+        const value = takeValue();
+        const [extension, style] = value.split('=');
+        if (
+          !extension?.startsWith('.') ||
+          !BANNER_STYLES.includes(style as BannerStyle)
+        ) {
+          throw new Error(
+            `--banner-style expects <.ext>=<line|block|jsdoc|html|hash>: ${value}`
+          );
+        }
+        options.bannerStyles = {
+          ...options.bannerStyles,
+          [extension]: style as BannerStyle,
+        };
+        break;
+      }
+      case '--banner': {
+        const bannerMode = takeValue();
+        if (!BANNER_MODES.includes(bannerMode as BannerMode)) {
+          throw new Error(
+            `--banner expects apply, check or remove: ${bannerMode}`
+          );
+        }
+        options.banner = bannerMode as BannerMode;
+        break;
+      }
+      case '--scope':
+        options.scope = parseScope(takeValue());
+        break;
+      case '--no-cache':
+        options.cache = false;
+        break;
+      case '--code-frame':
+        options.codeFrame = true;
+        break;
+      case '--reporter': {
+        const value = takeValue();
+        const pathIndex = value.indexOf('=');
+        const kind = pathIndex >= 0 ? value.slice(0, pathIndex) : value;
+        const outputPath =
+          pathIndex >= 0 ? value.slice(pathIndex + 1) : undefined;
+        if (!REPORTER_KINDS.includes(kind as CliReporterKind)) {
+          throw new Error(
+            `--reporter expects console, sarif, junit or json: ${kind}`
+          );
+        }
+        if (kind === 'console' && outputPath !== undefined) {
+          throw new Error('--reporter console does not take an output path');
+        }
+        reporters.push(
+          outputPath
+            ? { kind: kind as CliReporterKind, outputPath }
+            : { kind: kind as CliReporterKind }
+        );
+        break;
+      }
+      case '--verbose':
+        verbose = true;
+        break;
+      case '-h':
+      case '--help':
+        help = true;
+        break;
+      case '-v':
+      case '--version':
+        showVersion = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (tsconfigPaths.length > 0) {
+    if (options.typescript === false) {
+      throw new Error('--typescript cannot be combined with --no-typescript');
+    }
+    options.typescript =
+      tsconfigPaths.length === 1 ? tsconfigPaths[0] : tsconfigPaths;
+  }
+
+  return {
+    rootDir: resolve(cwd, root),
+    options,
+    reporters: reporters.length > 0 ? reporters : [{ kind: 'console' }],
+    verbose,
+    help,
+    version: showVersion,
+  };
+};
+
+/**
+ * Create the reporters selected on the command line.
+ * File outputs are resolved from the project root.
+ */
+const createCliReporter = (
+  spec: CliReporterSpec,
+  rootDir: string,
+  options: PrettierMaxOptions
+): ErrorReporter => {
+  const outputPath =
+    spec.outputPath !== undefined
+      ? resolve(rootDir, spec.outputPath)
+      : undefined;
+  switch (spec.kind) {
+    case 'console':
+      return new ConsoleReporter(rootDir, { codeFrame: options.codeFrame });
+    case 'sarif':
+      return new SarifReporter({ outputPath, cwd: rootDir });
+    case 'junit':
+      return new JUnitReporter({ outputPath, cwd: rootDir });
+    case 'json':
+      return new JsonReporter({ outputPath, cwd: rootDir });
+  }
+};
+
+/**
+ * Run the command line interface.
+ * @param args - Arguments without the node and script paths
+ * @param cwd - Directory relative paths are resolved from
+ * @returns Process exit code
+ */
+export const runCli = async (
+  args: readonly string[],
+  cwd: string = process.cwd()
+): Promise<number> => {
+  let parsed: CliArguments;
+  try {
+    parsed = parseCliArguments(args, cwd);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`prettier-max: ${message}`);
+    console.error(`Run 'prettier-max --help' for the available options.`);
+    return EXIT_FAILURE;
+  }
+  if (parsed.help) {
+    console.log(USAGE);
+    return EXIT_SUCCESS;
+  }
+  if (parsed.version) {
+    console.log(version);
+    return EXIT_SUCCESS;
+  }
+
+  const consoleLogger = createConsoleLogger('prettier-max');
+  const logger: Logger = parsed.verbose
+    ? consoleLogger
+    : { ...consoleLogger, debug: () => {} };
+  const { rootDir, options } = parsed;
+
+  try {
+    const result = await runPrettierMax({
+      ...options,
+      rootDir,
+      logger,
+      reporter: parsed.reporters.map((spec) =>
+        createCliReporter(spec, rootDir, options)
+      ),
+    });
+    // Reported problems are only printed without failOnError, like builds
+    if (!result.success && options.failOnError !== false) {
+      return EXIT_PROBLEMS;
+    }
+    // Failures other than reported problems were logged by the pipeline.
+    return result.error === undefined ? EXIT_SUCCESS : EXIT_FAILURE;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`\x1b[31m✗\x1b[0m ${message}`);
+    return EXIT_FAILURE;
+  }
+};
@@ -0,0 +1,104 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { CodeFrameOptions, PrettierError, Diagnostic } from './types.js';
+import { paint } from './colors.js';
+
+/**
+ * Position marked in a code frame, 1-based with an exclusive end
+ */
+export interface CodeFrameLocation {
+  line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+/**
+ * Render source lines around a location, marking the range below its first line:
+ *
+ * ```
+ *   1 | const a = 1;
+ * > 2 | const b: number = 'x';
+ *     |                   ^^^
+ * ```
+ *
+ * With a marker color, the marker is drawn in it and the gutter is dimmed.
+ */
+export const createCodeFrame = (
+  source: string,
+  location: CodeFrameLocation,
+  options: CodeFrameOptions = {},
+  markerColor?: string
+): string => {
+  const marker = (text: string) =>
+    paint(markerColor !== undefined, markerColor ?? '', text);
+  const gutter = (text: string) =>
+    paint(markerColor !== undefined, '\x1b[90m', text);
+  const { linesAbove = 2, linesBelow = 3 } = options;
+  // The newline ending the last line does not start another one
+  const lines = source.replace(/\r?\n$/, '').split(/\r?\n/);
+  const line = Math.min(Math.max(location.line, 1), lines.length);
+  const first = Math.max(line - linesAbove, 1);
+  const last = Math.min(line + linesBelow, lines.length);
+  const gutterWidth = String(last).length;
+
+  const frame: string[] = [];
+  for (let current = first; current <= last; current++) {
+    const text = lines[current - 1]!;
+    const lineNumber = String(current).padStart(gutterWidth);
+    frame.push(
+      `${current === line ? marker('>') : ' '} ${gutter(`${lineNumber} |`)}${text ? ` ${text}` : ''}`
+    );
+    if (current === line && location.column !== undefined) {
+      const start = Math.min(Math.max(location.column, 1), text.length + 1);
+      // Ranges spanning several lines are marked up to the end of the first one.
+      const end =
+        location.endLine === undefined || location.endLine === line
+          ? (location.endColumn ?? start + 1)
+          : text.length + 1;
+      // Keep tabs so the marker lines up with the text above it
+      const padding = text.slice(0, start - 1).replace(/[^\t]/g, ' ');
+      frame.push(
+        `  ${gutter(`${' '.repeat(gutterWidth)} |`)} ${padding}${marker('^'.repeat(Math.max(end - start, 1)))}`
+      );
+    }
+  }
+  return frame.join('\n');
+};
+
+/**
+ * Code frame of a diagnostic, read from its file relative to cwd.
+ * Undefined when the diagnostic has no line or the file cannot be read.
+ */
+export const readCodeFrame = (
+  cwd: string,
+  diagnostic: PrettierError & Partial<Diagnostic>,
+  options?: CodeFrameOptions,
+  markerColor?: string
+): string | undefined => {
+  if (diagnostic.line === undefined) {
+    return undefined;
+  }
+  let source: string;
+  try {
+    source = readFileSync(resolve(cwd, diagnostic.file), 'utf-8');
+  } catch {
+    return undefined;
+  }
+  return createCodeFrame(
+    source,
+    {
+      line: diagnostic.line,
+      column: diagnostic.column,
+      endLine: diagnostic.endLine,
+      endColumn: diagnostic.endColumn,
+    },
+    options,
+    markerColor
+  );
+};
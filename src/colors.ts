@@ -0,0 +1,29 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+/**
+ * Whether console output is colored. `FORCE_COLOR` (other than `0` or `false`)
+ * enables and a non-empty `NO_COLOR` disables colors, otherwise they follow
+ * whether stdout is a terminal.
+ */
+export const isColorEnabled = (
+  env: NodeJS.ProcessEnv = process.env,
+  isTTY: boolean | undefined = process.stdout?.isTTY
+): boolean => {
+  const forceColor = env.FORCE_COLOR;
+  if (forceColor !== undefined) {
+    return forceColor !== '0' && forceColor !== 'false';
+  }
+  if (env.NO_COLOR) {
+    return false;
+  }
+  return isTTY === true;
+};
+
+/**
+ * Wrap text in an ANSI color when enabled
+ */
+export const paint = (enabled: boolean, color: string, text: string): string =>
+  enabled ? `${color}${text}\x1b[0m` : text;
@@ -0,0 +1,108 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import type { Diagnostic, RuleId, RuleSeverities } from './types.js';
+
+/**
+ * Codes of diagnostics produced by formatting
+ * - `PRETTIER001`: file is not formatted
+ * - `PRETTIER002`: Prettier failed on a file, typically a syntax error
+ * - `PRETTIER003`: Prettier itself could not run
+ */
+export type PrettierDiagnosticCode =
+  'PRETTIER001' | 'PRETTIER002' | 'PRETTIER003';
+
+/**
+ * Codes of the plugin's own diagnostics
+ * - `PMAX000`: a check could not run
+ * - `PMAX001`: deprecated symbol usage
+ * - `PMAX002`: unnecessary suppression directive
+ * - `PMAX003`: default import or export
+ * - `PMAX004`: file without the banner
+ * - `PMAX005`: outdated banner
+ * - `PMAX006`: header that may or may not be the banner
+ */
+export type PrettierMaxDiagnosticCode =
+  | 'PMAX000'
+  | 'PMAX001'
+  | 'PMAX002'
+  | 'PMAX003'
+  | 'PMAX004'
+  | 'PMAX005'
+  | 'PMAX006';
+
+/**
+ * Position part of a diagnostic
+ */
+export type DiagnosticLocation = Pick<
+  Diagnostic,
+  'line' | 'column' | 'endLine' | 'endColumn'
+>;
+
+export const NOT_FORMATTED_MESSAGE = 'File is not formatted with Prettier';
+
+/**
+ * Create a formatting diagnostic. Its message has never carried the code.
+ */
+export const createPrettierDiagnostic = (
+  file: string,
+  code: PrettierDiagnosticCode,
+  messageText: string,
+  location: DiagnosticLocation = {}
+): Diagnostic => ({
+  file,
+  ...location,
+  message: messageText,
+  severity: 'error',
+  code,
+  source: 'prettier',
+  messageText,
+});
+
+/**
+ * Create a diagnostic of the plugin's own checks
+ */
+export const createPrettierMaxDiagnostic = (
+  file: string,
+  code: PrettierMaxDiagnosticCode,
+  messageText: string,
+  location: DiagnosticLocation = {}
+): Diagnostic => ({
+  file,
+  ...location,
+  message: `${code}: ${messageText}`,
+  severity: 'error',
+  code,
+  source: 'prettier-max',
+  messageText,
+});
+
+/**
+ * Whether a diagnostic code is one of the configurable rules
+ */
+export const isRuleId = (code: string): code is RuleId =>
+  code === 'PMAX001' || code === 'PMAX002' || code === 'PMAX003';
+
+/**
+ * Apply the configured rule severities, dropping findings of rules turned off
+ */
+export const applyRuleSeverities = (
+  diagnostics: Diagnostic[],
+  rules: RuleSeverities
+): Diagnostic[] =>
+  diagnostics.flatMap((diagnostic): Diagnostic[] => {
+    const setting = isRuleId(diagnostic.code)
+      ? rules[diagnostic.code]
+      : undefined;
+    switch (setting) {
+      case undefined:
+      case 'error':
+        return [diagnostic];
+      case 'warn':
+        return [{ ...diagnostic, severity: 'warning' }];
+      case 'off':
+        return [];
+    }
+  });
@@ -0,0 +1,117 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import type { Location, PartialMessage, Plugin } from 'esbuild';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { BundlerPluginOptions, Diagnostic } from './types.js';
+import { createConsoleLogger } from './logger.js';
+import { toProjectPath } from './reporters/output.js';
+import { createPipelineRunner } from './pipeline.js';
+
+/**
+ * esbuild location of a position, with the source line esbuild prints below it
+ */
+const toLocation = (
+  rootDir: string,
+  position: {
+    file: string;
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+  }
+): Partial<Location> | null => {
+  const file = resolve(rootDir, position.file);
+  // Problems of the whole project, such as a failing banner, have no location
+  if (file === rootDir) {
+    return null;
+  }
+  if (position.line === undefined) {
+    return { file: toProjectPath(rootDir, file) };
+  }
+  let lineText = '';
+  try {
+    lineText =
+      readFileSync(file, 'utf-8').split(/\r?\n/)[position.line - 1] ?? '';
+  } catch {
+    // Shown without the source line
+  }
+  const column = (position.column ?? 1) - 1;
+  return {
+    file: toProjectPath(rootDir, file),
+    line: position.line,
+    column,
+    // Ranges spanning several lines are marked up to the end of the first one.
+    length:
+      position.endColumn !== undefined &&
+      (position.endLine === undefined || position.endLine === position.line)
+        ? Math.max(position.endColumn - 1 - column, 0)
+        : Math.max(lineText.length - column, 0),
+    lineText,
+  };
+};
+
+/**
+ * esbuild message of a diagnostic, with related locations as notes
+ */
+const toEsbuildMessage = (
+  rootDir: string,
+  diagnostic: Diagnostic
+): PartialMessage => ({
+  text: `${diagnostic.code}: ${diagnostic.messageText}`,
+  location: toLocation(rootDir, diagnostic),
+  notes: diagnostic.relatedInformation?.map((information) => ({
+    text: information.message,
+    location: toLocation(rootDir, information),
+  })),
+});
+
+/**
+ * Prettier automatic formatting plugin for esbuild.
+ * Runs when a build starts, before esbuild reads the sources, and returns
+ * problems as esbuild messages, so errors fail the build.
+ */
+const prettierMax = (options: BundlerPluginOptions = {}): Plugin => ({
+  name: 'prettier-max',
+
+  setup: (build) => {
+    const { rootDir: rootDirOption, ...pluginOptions } = options;
+    const rootDir = resolve(
+      rootDirOption ?? build.initialOptions.absWorkingDir ?? process.cwd()
+    );
+    const run = createPipelineRunner(
+      rootDir,
+      { ...pluginOptions, reporter: pluginOptions.reporter ?? [] },
+      createConsoleLogger('prettier-max')
+    );
+
+    build.onStart(async () => {
+      const result = await run();
+      const failed = result.error !== undefined;
+      const errors: PartialMessage[] = [];
+      const warnings: PartialMessage[] = [];
+      for (const diagnostic of result.diagnostics) {
+        // Errors only fail the build when failOnError is enabled
+        (failed && diagnostic.severity === 'error' ? errors : warnings).push(
+          toEsbuildMessage(rootDir, diagnostic)
+        );
+      }
+      if (failed && errors.length === 0) {
+        // A phase could not run
+        errors.push({
+          text:
+            result.error instanceof Error
+              ? result.error.message
+              : String(result.error),
+        });
+      }
+      return { errors, warnings };
+    });
+  },
+});
+
+export default prettierMax;
+export type { BundlerPluginOptions } from './types.js';
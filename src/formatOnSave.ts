@@ -0,0 +1,189 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { readFile } from 'fs/promises';
+import { isAbsolute, relative, resolve } from 'path';
+
+import type { Diagnostic, ErrorReporter, FormatMode } from './types.js';
+import type { Logger } from './logger.js';
+import { runPrettierFormatFiles } from './checker.js';
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+interface FormatOnSaveOptions {
+  rootDir: string;
+  configPath: string | undefined;
+  mode?: FormatMode;
+  logger: Logger;
+  reporter: ErrorReporter;
+  debounceMs?: number;
+}
+
+/**
+ * Incremental formatter driven by dev server file change notifications
+ */
+export interface FormatOnSaveScheduler {
+  /**
+   * Notify that a file has been saved
+   * @param file - Absolute path of the changed file
+   * @param content - Current file content, used to detect our own rewrites
+   */
+  readonly notify: (file: string, content: string) => void;
+  /**
+   * Wait until all pending files are processed
+   */
+  readonly flush: () => Promise<void>;
+  /**
+   * Cancel pending work
+   */
+  readonly dispose: () => void;
+}
+
+/**
+ * Create a debounced scheduler that formats saved files one batch at a time.
+ */
+export const createFormatOnSaveScheduler = (
+  options: FormatOnSaveOptions
+): FormatOnSaveScheduler => {
+  const {
+    rootDir,
+    configPath,
+    mode = 'write',
+    logger,
+    reporter,
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+  } = options;
+
+  const pending = new Set<string>();
+  // file -> content we wrote; a change event carrying exactly this content
+  // is the echo of our own rewrite and must not trigger another pass.
+  const selfWritten = new Map<string, string>();
+  // file -> errors of its last pass, so saving one file keeps the errors
+  // of the others. Errors of no file in a batch, such as Prettier failing
+  // to start, are kept under rootDir until the next batch.
+  const errorsByFile = new Map<string, Diagnostic[]>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | undefined;
+  let disposed = false;
+
+  const isTarget = (file: string): boolean => {
+    const rel = relative(rootDir, file);
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+      return false;
+    }
+    return !rel.split(/[\\/]/).some((part) => part === 'node_modules');
+  };
+
+  const processBatch = async (files: string[]): Promise<void> => {
+    const result = await runPrettierFormatFiles(rootDir, configPath, files, {
+      mode,
+      logger,
+    });
+
+    for (const file of result.formattedFiles) {
+      try {
+        selfWritten.set(file, await readFile(file, 'utf-8'));
+      } catch {
+        // The file vanished after formatting; nothing to guard against.
+      }
+    }
+
+    const batch = new Set(files);
+    for (const file of files) {
+      errorsByFile.delete(file);
+    }
+    errorsByFile.delete(rootDir);
+    for (const error of result.errors) {
+      const file = resolve(rootDir, error.file);
+      const key = batch.has(file) ? file : rootDir;
+      errorsByFile.set(key, [...(errorsByFile.get(key) ?? []), error]);
+    }
+
+    const errors = Array.from(errorsByFile.values()).flat();
+    if (errors.length > 0) {
+      reporter.report(errors);
+    } else {
+      reporter.clear();
+    }
+    if (result.errors.length > 0) {
+      return;
+    }
+
+    for (const file of result.formattedFiles) {
+      const relativePath = relative(rootDir, file);
+      logger.info(`\x1b[32m✓\x1b[0m Formatted \x1b[90m${relativePath}\x1b[0m`);
+    }
+  };
+
+  const drain = async (): Promise<void> => {
+    // Keep consuming batches that arrived while the previous one was running.
+    while (pending.size > 0 && !disposed) {
+      const files = Array.from(pending).sort();
+      pending.clear();
+      try {
+        await processBatch(files);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Error running prettier format: ${message}`);
+      }
+    }
+    running = undefined;
+  };
+
+  const trigger = (): void => {
+    timer = undefined;
+    if (!running) {
+      running = drain();
+    }
+  };
+
+  const notify = (file: string, content: string): void => {
+    if (disposed) {
+      return;
+    }
+    const absolutePath = resolve(rootDir, file);
+    if (!isTarget(absolutePath)) {
+      return;
+    }
+
+    const written = selfWritten.get(absolutePath);
+    if (written !== undefined) {
+      selfWritten.delete(absolutePath);
+      if (written === content) {
+        logger.debug(`Skipped self-written file: ${absolutePath}`);
+        return;
+      }
+    }
+
+    pending.add(absolutePath);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(trigger, debounceMs);
+  };
+
+  const flush = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      trigger();
+    }
+    while (running) {
+      await running;
+    }
+  };
+
+  const dispose = (): void => {
+    disposed = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    pending.clear();
+    selfWritten.clear();
+    errorsByFile.clear();
+  };
+
+  return { notify, flush, dispose };
+};
@@ -0,0 +1,51 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { spawn } from 'child_process';
+
+/**
+ * Run git and return its standard output
+ */
+export const runGit = (cwd: string, args: string[]): Promise<string> =>
+  new Promise((resolvePromise, reject) => {
+    const child = spawn('git', args, { cwd, shell: false });
+    // Chunks are decoded together, so characters split between them survive.
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout.push(data);
+    });
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr.push(data);
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolvePromise(Buffer.concat(stdout).toString('utf8'));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        reject(
+          new Error(
+            `git ${args.join(' ')} failed: ${message || `exit code ${code}`}`
+          )
+        );
+      }
+    });
+  });
+
+/**
+ * Non-empty trimmed lines of git output
+ */
+export const splitLines = (output: string): string[] =>
+  output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+/**
+ * Paths of git output printed with `-z`, unquoted even when not ASCII
+ */
+export const splitPaths = (output: string): string[] =>
+  output.split('\0').filter((path) => path.length > 0);
@@ -4,46 +4,59 @@
 // https://github.com/kekyo/prettier-max/
 
 import type { Plugin } from 'vite';
-import { resolve, relative } from 'path';
-import type {
-  PrettierMaxOptions,
-  ErrorReporter,
-  PrettierError,
-} from './types.js';
+import type { PrettierMaxOptions, ErrorReporter } from './types.js';
 import type { Logger } from './logger.js';
 import { createViteLoggerAdapter, createConsoleLogger } from './logger.js';
 import { ConsoleReporter } from './reporters/console.js';
 import {
-  runPrettierFormatProject,
-  getPrettierVersion,
-  getTypeScriptVersion,
-  runTypeScriptCheck,
-} from './checker.js';
-import { generatePrettierConfigFiles } from './configGenerator.js';
-import { version, git_commit_hash } from './generated/packageMetadata.js';
-import { applyBanner } from './banner.js';
+  createFormatOnSaveScheduler,
+  type FormatOnSaveScheduler,
+} from './formatOnSave.js';
+import {
+  createTypeScriptWatcher,
+  type TypeScriptWatcher,
+} from './typescriptWatch.js';
+import { createReporterChannels } from './reporters/channels.js';
+import { createCompositeReporter } from './reporters/composite.js';
+import { OverlayReporter } from './reporters/overlay.js';
+import { createOverlayClientScript } from './overlayClient.js';
+import {
+  combineReporters,
+  createReporters,
+  preparePipeline,
+  resolvePipelineSettings,
+  runBuildPipeline,
+} from './pipeline.js';
 
 /**
  * Prettier automatic formatting plugin for Vite
  */
 const prettierMax = (options: PrettierMaxOptions = {}): Plugin => {
   const {
-    configPath = undefined,
-    reporter: customReporter = undefined,
-    formatOnBuild = true,
-    failOnError = true,
-    typescript = true,
-    generatePrettierConfig = true,
-    detectDeprecated = true,
-    detectDefaultImport = 'none',
-    bannerExtensions = undefined,
+    formatOnSave = false,
+    watchTypeScript = false,
+    overlay = false,
   } = options;
-
+  const settings = resolvePipelineSettings(options);
+  const {
+    configPath,
+    formatOnBuild,
+    mode,
+    typescript,
+    detectDeprecated,
+    detectDefaultImport,
+    rules,
+  } = settings;
+
+  let reporters: ErrorReporter[];
   let reporter: ErrorReporter;
   let rootDir: string;
   let logger: Logger = createConsoleLogger('prettier-max');
   let isFormatting = false;
   let resolvedTsconfigPaths: string[] | undefined;
+  let formatOnSaveScheduler: FormatOnSaveScheduler | undefined;
+  let typeScriptWatcher: TypeScriptWatcher | undefined;
+  let overlayBase: string | undefined;
 
   return {
     name: 'prettier-max',
@@ -59,82 +72,9 @@ const prettierMax = (options: PrettierMaxOptions = {}): Plugin => {
           'prettier-max'
         );
       }
-      reporter = customReporter ?? new ConsoleReporter(rootDir);
-      resolvedTsconfigPaths =
-        typeof typescript === 'string'
-          ? [resolve(rootDir, typescript)]
-          : Array.isArray(typescript)
-            ? typescript
-                .filter((tsconfigPath) => tsconfigPath)
-                .map((tsconfigPath) => resolve(rootDir, tsconfigPath))
-            : undefined;
-      if (resolvedTsconfigPaths?.length) {
-        resolvedTsconfigPaths = Array.from(new Set(resolvedTsconfigPaths));
-      }
-
-      logger.info(`${version}-${git_commit_hash}: Started.`);
-
-      // Generate prettier config files if enabled
-      if (generatePrettierConfig) {
-        await generatePrettierConfigFiles(rootDir, logger);
-      }
-
-      // Check if prettier is available
-      const prettierVersion = await getPrettierVersion(rootDir);
-      if (!prettierVersion) {
-        logger.error(
-          '\x1b[31m✗\x1b[0m Prettier is not available. Please install prettier as a dependency.'
-        );
-      } else {
-        logger.debug(`Detected prettier: ${prettierVersion}`);
-        logger.info('Automatic formatting enabled on build');
-      }
-
-      // Check if TypeScript is available when validation is enabled
-      if (typescript) {
-        const typeScriptVersion = await getTypeScriptVersion();
-        if (!typeScriptVersion) {
-          logger.warn(
-            '\x1b[33m⚠\x1b[0m TypeScript is not available. TypeScript validation will be skipped.'
-          );
-        } else {
-          logger.debug(`Detected TypeScript: ${typeScriptVersion}`);
-          logger.info('TypeScript validation enabled on build');
-          if (resolvedTsconfigPaths?.length) {
-            const [firstTsconfigPath] = resolvedTsconfigPaths;
-            if (resolvedTsconfigPaths.length === 1 && firstTsconfigPath) {
-              const displayTsconfigPath =
-                relative(rootDir, firstTsconfigPath) || firstTsconfigPath;
-              logger.info(`Using tsconfig: ${displayTsconfigPath}`);
-            } else {
-              logger.info(
-                `Using ${resolvedTsconfigPaths.length} tsconfig files:`
-              );
-              for (const tsconfigPath of resolvedTsconfigPaths) {
-                const displayTsconfigPath =
-                  relative(rootDir, tsconfigPath) || tsconfigPath;
-                logger.info(`  \x1b[90m${displayTsconfigPath}\x1b[0m`);
-              }
-            }
-          }
-          if (detectDeprecated) {
-            logger.info('Deprecated symbol detection enabled');
-          } else {
-            logger.debug(
-              'Deprecated symbol detection disabled (performance mode)'
-            );
-          }
-          if (detectDefaultImport !== 'none') {
-            const defaultImportMessage =
-              detectDefaultImport === 'exceptType'
-                ? 'Default import detection enabled (type-only imports allowed)'
-                : 'Default import detection enabled';
-            logger.info(defaultImportMessage);
-          } else {
-            logger.debug('Default import detection disabled');
-          }
-        }
-      }
+      reporters = createReporters(rootDir, options);
+      reporter = combineReporters(reporters);
+      resolvedTsconfigPaths = await preparePipeline(rootDir, settings, logger);
     },
 
     configureServer: (devServer) => {
@@ -151,7 +91,53 @@ const prettierMax = (options: PrettierMaxOptions = {}): Plugin => {
       // Log plugin activation
       logger.info('Automatic formatting plugin loaded');
       if (formatOnBuild) {
-        logger.info(`\x1b[90m  Will format files on build start\x1b[0m`);
+        logger.info(
+          mode === 'check'
+            ? `\x1b[90m  Will check formatting on build start\x1b[0m`
+            : `\x1b[90m  Will format files on build start\x1b[0m`
+        );
+      }
+      if (overlay) {
+        logger.info(`\x1b[90m  Will show problems in the browser\x1b[0m`);
+        overlayBase = devServer.config.base;
+        reporter = createCompositeReporter([
+          ...reporters,
+          new OverlayReporter(devServer.ws, rootDir),
+        ]);
+      }
+      // Saved-file formatting and TypeScript watch share the reporter
+      // without clearing each other's errors.
+      const channel = createReporterChannels(reporter);
+      if (formatOnSave || watchTypeScript) {
+        for (const target of reporters) {
+          if (target instanceof ConsoleReporter) {
+            target.setLogger(logger);
+          }
+        }
+      }
+      if (formatOnSave) {
+        logger.info(`\x1b[90m  Will format files on save\x1b[0m`);
+        formatOnSaveScheduler?.dispose();
+        formatOnSaveScheduler = createFormatOnSaveScheduler({
+          rootDir,
+          configPath,
+          mode,
+          logger,
+          reporter: channel('prettier'),
+        });
+      }
+      if (typescript && watchTypeScript) {
+        logger.info(`\x1b[90m  Will check TypeScript on change\x1b[0m`);
+        typeScriptWatcher?.close();
+        typeScriptWatcher = createTypeScriptWatcher({
+          rootDir,
+          tsconfigPaths: resolvedTsconfigPaths,
+          detectDeprecated,
+          detectDefaultImport,
+          rules,
+          logger,
+          reporter: channel('typescript'),
+        });
       }
       logger.info(`\x1b[90m  Using .prettierignore patterns\x1b[0m`);
       if (configPath) {
@@ -159,6 +145,37 @@ const prettierMax = (options: PrettierMaxOptions = {}): Plugin => {
       }
     },
 
+    transformIndexHtml: () => {
+      // Only pages of the dev server show the panel.
+      if (overlayBase === undefined) {
+        return undefined;
+      }
+      return [
+        {
+          tag: 'script',
+          attrs: { type: 'module' },
+          children: createOverlayClientScript(overlayBase),
+          injectTo: 'body',
+        },
+      ];
+    },
+
+    handleHotUpdate: async (ctx) => {
+      if (!formatOnSaveScheduler) {
+        return;
+      }
+      // Only schedule here; HMR for the original save proceeds immediately and
+      // our rewrite arrives later as a regular change event.
+      formatOnSaveScheduler.notify(ctx.file, await ctx.read());
+    },
+
+    closeBundle: () => {
+      formatOnSaveScheduler?.dispose();
+      formatOnSaveScheduler = undefined;
+      typeScriptWatcher?.close();
+      typeScriptWatcher = undefined;
+    },
+
     buildStart: async () => {
       // Prevent concurrent processing
       if (isFormatting) {
@@ -166,180 +183,24 @@ const prettierMax = (options: PrettierMaxOptions = {}): Plugin => {
         return;
       }
 
-      try {
-        await applyBanner({
-          rootDir,
-          logger,
-          extensions: bannerExtensions,
-        });
-      } catch (error) {
-        const message =
-          error instanceof Error
-            ? error.message
-            : `Unexpected banner error: ${String(error)}`;
-        logger.error(`Failed to apply banner: ${message}`);
-        if (failOnError) {
-          throw error;
+      // Set build mode and logger for console reporter
+      for (const target of reporters) {
+        if (target instanceof ConsoleReporter) {
+          target.setBuildMode(true);
+          target.setLogger(logger);
         }
       }
 
-      // Only run formatting if formatOnBuild is enabled
-      if (!formatOnBuild) {
-        return;
-      }
-
       isFormatting = true;
-      logger.info('Formatting files before build...');
-
-      // Set build mode and logger for console reporter
-      if (reporter instanceof ConsoleReporter) {
-        reporter.setBuildMode(true);
-        reporter.setLogger(logger);
-      }
-
       try {
-        // Run prettier format on the entire project
-        const result = await runPrettierFormatProject(rootDir, configPath);
-
-        if (result.errors.length > 0) {
-          // Report errors using the configured reporter
-          reporter.report(result.errors);
-
-          logger.error(
-            `\x1b[31m✗\x1b[0m Failed to format ${result.errors.length} file${result.errors.length === 1 ? '' : 's'}`
-          );
-
-          if (failOnError) {
-            // Throw error to stop the build
-            throw new Error(
-              `Prettier formatting failed: ${result.errors.length} file${result.errors.length === 1 ? '' : 's'} could not be formatted.`
-            );
-          } else {
-            logger.warn(
-              '\x1b[33m⚠\x1b[0m Build continuing despite formatting errors'
-            );
-          }
-        } else if (result.formattedFiles.length > 0) {
-          logger.info(
-            `\x1b[32m✓\x1b[0m Formatted ${result.formattedFiles.length} file${result.formattedFiles.length === 1 ? '' : 's'}`
-          );
-          // Log the formatted files
-          for (const file of result.formattedFiles) {
-            const relativePath = file.replace(rootDir + '/', '');
-            logger.info(`  \x1b[90m${relativePath}\x1b[0m`);
-          }
-        } else {
-          logger.info(
-            '\x1b[32m✓\x1b[0m All files are already properly formatted'
-          );
-        }
-
-        logger.info(
-          `\x1b[90mFormatting completed in ${result.duration}ms\x1b[0m`
-        );
-
-        // Run TypeScript validation if enabled and formatting was successful
-        if (typescript && result.errors.length === 0) {
-          const tsVersion = await getTypeScriptVersion();
-          if (tsVersion) {
-            const tsconfigTargets =
-              resolvedTsconfigPaths && resolvedTsconfigPaths.length > 0
-                ? resolvedTsconfigPaths
-                : [undefined];
-            const aggregatedErrors: PrettierError[] = [];
-            let totalTsDuration = 0;
-
-            for (const [index, tsconfigPath] of tsconfigTargets.entries()) {
-              const displayTsconfigPath =
-                tsconfigPath !== undefined
-                  ? relative(rootDir, tsconfigPath) || tsconfigPath
-                  : undefined;
-
-              const runLabel =
-                tsconfigTargets.length > 1
-                  ? `Running TypeScript validation (${index + 1}/${tsconfigTargets.length})`
-                  : 'Running TypeScript validation';
-
-              logger.info(
-                displayTsconfigPath
-                  ? `${runLabel} with ${displayTsconfigPath}...`
-                  : `${runLabel}...`
-              );
-
-              const tsResult = await runTypeScriptCheck(
-                rootDir,
-                detectDeprecated,
-                logger,
-                tsconfigPath,
-                detectDefaultImport
-              );
-
-              totalTsDuration += tsResult.duration;
-
-              if (tsResult.errors.length > 0) {
-                logger.error(
-                  `\x1b[31m✗\x1b[0m TypeScript validation failed${displayTsconfigPath ? ` for ${displayTsconfigPath}` : ''}: ${tsResult.errors.length} error${tsResult.errors.length === 1 ? '' : 's'}`
-                );
-
-                // Log each error
-                for (const error of tsResult.errors) {
-                  const relativePath = error.file.replace(rootDir + '/', '');
-                  if (error.line && error.column) {
-                    logger.error(
-                      `  \x1b[31m${relativePath}:${error.line}:${error.column}\x1b[0m - ${error.message}`
-                    );
-                  } else {
-                    logger.error(
-                      `  \x1b[31m${relativePath}\x1b[0m - ${error.message}`
-                    );
-                  }
-                }
-
-                aggregatedErrors.push(...tsResult.errors);
-                if (!failOnError) {
-                  logger.warn(
-                    '\x1b[33m⚠\x1b[0m Build continuing despite TypeScript errors'
-                  );
-                }
-              } else {
-                logger.info(
-                  `\x1b[32m✓\x1b[0m TypeScript validation passed${displayTsconfigPath ? ` for ${displayTsconfigPath}` : ''}`
-                );
-              }
-
-              logger.info(
-                `\x1b[90mTypeScript validation completed in ${tsResult.duration}ms${displayTsconfigPath ? ` (${displayTsconfigPath})` : ''}\x1b[0m`
-              );
-            }
-
-            if (tsconfigTargets.length > 1) {
-              logger.info(
-                `\x1b[90mTotal TypeScript validation time: ${totalTsDuration}ms\x1b[0m`
-              );
-            }
-
-            if (aggregatedErrors.length > 0 && failOnError) {
-              throw new Error(
-                `TypeScript validation failed: ${aggregatedErrors.length} error${aggregatedErrors.length === 1 ? '' : 's'} found.`
-              );
-            }
-          }
-        }
-      } catch (error) {
-        if (
-          error instanceof Error &&
-          error.message.includes('Prettier formatting failed')
-        ) {
-          // Re-throw our own error
-          throw error;
-        }
-        // Log other errors but don't fail the build unless failOnError is true
-        if (error instanceof Error) {
-          logger.error(`Error running prettier format: ${error.message}`);
-        } else {
-          logger.error(`Error running prettier format: ${String(error)}`);
-        }
-        if (failOnError) {
+        const { error } = await runBuildPipeline({
+          rootDir,
+          settings,
+          tsconfigPaths: resolvedTsconfigPaths,
+          logger,
+          reporter,
+        });
+        if (error !== undefined) {
           throw error;
         }
       } finally {
@@ -350,9 +211,39 @@ const prettierMax = (options: PrettierMaxOptions = {}): Plugin => {
 };
 
 export default prettierMax;
+export { runPrettierMax } from './pipeline.js';
+export { ConsoleReporter } from './reporters/console.js';
+export { SarifReporter } from './reporters/sarif.js';
+export { JUnitReporter } from './reporters/junit.js';
+export { JsonReporter } from './reporters/json.js';
+export type { ConsoleReporterOptions } from './reporters/console.js';
+export type { SarifReporterOptions } from './reporters/sarif.js';
+export type { JUnitReporterOptions } from './reporters/junit.js';
+export type { JsonReporterOptions } from './reporters/json.js';
 export type {
   PrettierMaxOptions,
   PrettierError,
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticSource,
+  DiagnosticRelatedInformation,
+  DiagnosticFix,
+  DiagnosticTextEdit,
   ErrorReporter,
+  CodeFrameOptions,
+  BuildPhaseKind,
+  BuildPhaseResult,
+  BuildReport,
+  RunPrettierMaxOptions,
+  PrettierMaxResult,
+  Logger,
   DefaultImportDetectionMode,
+  RuleId,
+  RuleSeverity,
+  RuleSeverities,
+  FileScope,
+  BannerStyle,
+  BannerMode,
+  BannerFileStatus,
+  BannerSummary,
 } from './types.js';
@@ -70,3 +70,38 @@ export const createViteLoggerAdapter = (
         : () => {},
   };
 };
+
+/**
+ * Log message recorded by a buffered logger
+ */
+export interface LogEntry {
+  level: keyof Logger;
+  message: string;
+}
+
+// Logger recording messages so a run's output can be printed as one group
+export const createBufferedLogger = (): {
+  logger: Logger;
+  entries: LogEntry[];
+} => {
+  const entries: LogEntry[] = [];
+  const record = (level: keyof Logger) => (message: string) => {
+    entries.push({ level, message });
+  };
+  return {
+    logger: {
+      debug: record('debug'),
+      info: record('info'),
+      warn: record('warn'),
+      error: record('error'),
+    },
+    entries,
+  };
+};
+
+// Print recorded messages in their original order
+export const replayLogEntries = (logger: Logger, entries: LogEntry[]): void => {
+  for (const entry of entries) {
+    logger[entry.level](entry.message);
+  }
+};
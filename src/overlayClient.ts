@@ -0,0 +1,108 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+/**
+ * Custom event carrying the current diagnostics to the browser
+ */
+export const OVERLAY_EVENT = 'prettier-max:diagnostics';
+
+/**
+ * Custom event sent by a client when it loads, asking for the current diagnostics
+ */
+export const OVERLAY_REQUEST_EVENT = 'prettier-max:request';
+
+const OVERLAY_STYLE = `
+.panel {
+  position: fixed; right: 16px; bottom: 16px; z-index: 99999;
+  width: min(720px, calc(100vw - 32px)); max-height: 60vh; overflow: auto;
+  background: #1e1e1e; color: #d4d4d4; border-radius: 6px;
+  box-shadow: 0 4px 24px rgba(0, 0, 0, 0.4);
+  font: 13px/1.5 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+}
+.header {
+  position: sticky; top: 0; display: flex; justify-content: space-between;
+  align-items: center; padding: 8px 12px; background: #2d2d2d;
+}
+.close { background: none; border: none; color: inherit; cursor: pointer; font-size: 16px; }
+.entry { padding: 8px 12px; border-top: 1px solid #333; }
+.location { color: #9cdcfe; }
+.error { color: #f48771; }
+.warning { color: #cca700; }
+.info { color: #75beff; }
+pre { margin: 6px 0 0; white-space: pre; overflow-x: auto; color: #bbb; }
+`;
+
+/**
+ * Browser module rendering the diagnostics panel, talking to the dev server
+ * through the HMR connection of the Vite client
+ */
+export const createOverlayClientScript = (base: string): string => `
+import { createHotContext } from ${JSON.stringify(`${base}@vite/client`)};
+
+const hot = createHotContext('/@prettier-max/overlay');
+let host;
+
+const element = (tag, className, text) => {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+const render = ({ diagnostics }) => {
+  host?.remove();
+  host = undefined;
+  if (diagnostics.length === 0) {
+    return;
+  }
+
+  host = document.createElement('prettier-max-overlay');
+  const root = host.attachShadow({ mode: 'open' });
+  root.appendChild(element('style', undefined, ${JSON.stringify(OVERLAY_STYLE)}));
+  const panel = element('div', 'panel');
+
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  const header = element('div', 'header');
+  header.appendChild(
+    element(
+      'strong',
+      undefined,
+      'prettier-max: ' +
+        [
+          errors ? errors + ' error' + (errors === 1 ? '' : 's') : '',
+          warnings ? warnings + ' warning' + (warnings === 1 ? '' : 's') : '',
+        ].filter((count) => count).join(', ')
+    )
+  );
+  const close = element('button', 'close', '\\u00d7');
+  close.title = 'Hide until the next change';
+  close.onclick = () => {
+    host?.remove();
+    host = undefined;
+  };
+  header.appendChild(close);
+  panel.appendChild(header);
+
+  for (const d of diagnostics) {
+    const entry = element('div', 'entry');
+    const location = d.line !== undefined ? d.file + ':' + d.line + ':' + (d.column ?? 1) : d.file;
+    entry.appendChild(element('span', 'location', location));
+    entry.appendChild(document.createTextNode(' '));
+    entry.appendChild(element('span', d.severity, d.severity + ' ' + d.code));
+    entry.appendChild(document.createTextNode(': ' + d.message));
+    if (d.frame) {
+      entry.appendChild(element('pre', undefined, d.frame));
+    }
+    panel.appendChild(entry);
+  }
+
+  root.appendChild(panel);
+  document.body.appendChild(host);
+};
+
+hot.on(${JSON.stringify(OVERLAY_EVENT)}, render);
+hot.send(${JSON.stringify(OVERLAY_REQUEST_EVENT)});
+`;
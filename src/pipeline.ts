@@ -0,0 +1,722 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { resolve, relative } from 'path';
+import type {
+  PrettierMaxOptions,
+  PrettierMaxResult,
+  RunPrettierMaxOptions,
+  ErrorReporter,
+  Diagnostic,
+  BuildPhaseResult,
+  BannerMode,
+  BannerStyle,
+  BuildReport,
+  DefaultImportDetectionMode,
+  FileScope,
+  FormatMode,
+  RuleId,
+  RuleSeverities,
+  RuleSeverity,
+} from './types.js';
+import type { Logger } from './logger.js';
+import { createConsoleLogger, replayLogEntries } from './logger.js';
+import { ConsoleReporter } from './reporters/console.js';
+import { createCompositeReporter } from './reporters/composite.js';
+import {
+  runPrettierFormatProject,
+  getPrettierVersion,
+  getTypeScriptVersion,
+  expandProjectReferences,
+} from './checker.js';
+import { generatePrettierConfigFiles } from './configGenerator.js';
+import { version, git_commit_hash } from './generated/packageMetadata.js';
+import { applyBanner } from './banner.js';
+import {
+  describeScope,
+  filterErrorsByScope,
+  resolveScopeFiles,
+} from './scope.js';
+import { createReporterChannels } from './reporters/channels.js';
+import { checkTypeScriptInWorkers } from './workerPool.js';
+import {
+  applyRuleSeverities,
+  createPrettierMaxDiagnostic,
+  isRuleId,
+} from './diagnostics.js';
+
+/**
+ * Options driving the build pipeline, with their defaults applied
+ */
+export interface PipelineSettings {
+  configPath: string | undefined;
+  formatOnBuild: boolean;
+  mode: FormatMode;
+  concurrency: number;
+  typescriptConcurrency: number;
+  cache: boolean;
+  scope: FileScope;
+  failOnError: boolean;
+  typescript: boolean | string | string[];
+  generatePrettierConfig: boolean;
+  detectDeprecated: boolean;
+  detectDefaultImport: DefaultImportDetectionMode;
+  rules: RuleSeverities;
+  ruleSeverities: Record<RuleId, RuleSeverity>;
+  bannerExtensions: string[] | undefined;
+  bannerStyles: Record<string, BannerStyle> | undefined;
+  banner: BannerMode;
+}
+
+/**
+ * Apply the defaults to the options used by the build pipeline
+ */
+export const resolvePipelineSettings = (
+  options: PrettierMaxOptions = {}
+): PipelineSettings => {
+  const {
+    configPath = undefined,
+    formatOnBuild = true,
+    mode = 'write',
+    concurrency = 1,
+    typescriptConcurrency = 1,
+    cache = true,
+    scope = 'all',
+    failOnError = true,
+    typescript = true,
+    generatePrettierConfig = true,
+    detectDeprecated: deprecatedOption = true,
+    detectDefaultImport: defaultImportOption = 'none',
+    rules = {},
+    bannerExtensions = undefined,
+    bannerStyles = undefined,
+    banner = 'apply',
+  } = options;
+
+  // Rules turned off skip their detection pass entirely.
+  const detectDeprecated =
+    deprecatedOption && (rules.PMAX001 !== 'off' || rules.PMAX002 !== 'off');
+  const detectDefaultImport =
+    rules.PMAX003 === 'off' ? 'none' : defaultImportOption;
+
+  return {
+    configPath,
+    formatOnBuild,
+    mode,
+    concurrency,
+    typescriptConcurrency,
+    cache,
+    scope,
+    failOnError,
+    typescript,
+    generatePrettierConfig,
+    detectDeprecated,
+    detectDefaultImport,
+    rules,
+    // Rules whose detection does not run are reported as off.
+    ruleSeverities: {
+      PMAX001: detectDeprecated ? (rules.PMAX001 ?? 'error') : 'off',
+      PMAX002: detectDeprecated ? (rules.PMAX002 ?? 'error') : 'off',
+      PMAX003:
+        detectDefaultImport !== 'none' ? (rules.PMAX003 ?? 'error') : 'off',
+    },
+    bannerExtensions,
+    bannerStyles,
+    banner,
+  };
+};
+
+/**
+ * Generate the prettier configuration, detect prettier and TypeScript and
+ * resolve the tsconfig files to validate.
+ * @returns Absolute tsconfig paths, undefined for the default tsconfig
+ */
+export const preparePipeline = async (
+  rootDir: string,
+  settings: PipelineSettings,
+  logger: Logger
+): Promise<string[] | undefined> => {
+  const {
+    mode,
+    typescript,
+    generatePrettierConfig,
+    detectDeprecated,
+    detectDefaultImport,
+  } = settings;
+
+  let resolvedTsconfigPaths =
+    typeof typescript === 'string'
+      ? [resolve(rootDir, typescript)]
+      : Array.isArray(typescript)
+        ? typescript
+            .filter((tsconfigPath) => tsconfigPath)
+            .map((tsconfigPath) => resolve(rootDir, tsconfigPath))
+        : undefined;
+  if (resolvedTsconfigPaths?.length) {
+    resolvedTsconfigPaths = Array.from(new Set(resolvedTsconfigPaths));
+  }
+
+  logger.info(`${version}-${git_commit_hash}: Started.`);
+
+  // Generate prettier config files if enabled
+  if (generatePrettierConfig) {
+    await generatePrettierConfigFiles(rootDir, logger);
+  }
+
+  // Check if prettier is available
+  const prettierVersion = await getPrettierVersion(rootDir);
+  if (!prettierVersion) {
+    logger.error(
+      '\x1b[31m✗\x1b[0m Prettier is not available. Please install prettier as a dependency.'
+    );
+  } else {
+    logger.debug(`Detected prettier: ${prettierVersion}`);
+    logger.info(
+      mode === 'check'
+        ? 'Format checking enabled on build (files are not rewritten)'
+        : 'Automatic formatting enabled on build'
+    );
+  }
+
+  // Check if TypeScript is available when validation is enabled
+  if (typescript) {
+    const typeScriptVersion = await getTypeScriptVersion();
+    if (!typeScriptVersion) {
+      logger.warn(
+        '\x1b[33m⚠\x1b[0m TypeScript is not available. TypeScript validation will be skipped.'
+      );
+    } else {
+      logger.debug(`Detected TypeScript: ${typeScriptVersion}`);
+      logger.info('TypeScript validation enabled on build');
+      // Solution-style tsconfigs are checked through their references.
+      resolvedTsconfigPaths = await expandProjectReferences(
+        rootDir,
+        resolvedTsconfigPaths
+      );
+      if (resolvedTsconfigPaths?.length) {
+        const [firstTsconfigPath] = resolvedTsconfigPaths;
+        if (resolvedTsconfigPaths.length === 1 && firstTsconfigPath) {
+          const displayTsconfigPath =
+            relative(rootDir, firstTsconfigPath) || firstTsconfigPath;
+          logger.info(`Using tsconfig: ${displayTsconfigPath}`);
+        } else {
+          logger.info(`Using ${resolvedTsconfigPaths.length} tsconfig files:`);
+          for (const tsconfigPath of resolvedTsconfigPaths) {
+            const displayTsconfigPath =
+              relative(rootDir, tsconfigPath) || tsconfigPath;
+            logger.info(`  \x1b[90m${displayTsconfigPath}\x1b[0m`);
+          }
+        }
+      }
+      if (detectDeprecated) {
+        logger.info('Deprecated symbol detection enabled');
+      } else {
+        logger.debug('Deprecated symbol detection disabled (performance mode)');
+      }
+      if (detectDefaultImport !== 'none') {
+        const defaultImportMessage =
+          detectDefaultImport === 'exceptType'
+            ? 'Default import detection enabled (type-only imports allowed)'
+            : 'Default import detection enabled';
+        logger.info(defaultImportMessage);
+      } else {
+        logger.debug('Default import detection disabled');
+      }
+    }
+  }
+
+  return resolvedTsconfigPaths;
+};
+
+/**
+ * Build pipeline run options
+ */
+export interface BuildPipelineContext {
+  rootDir: string;
+  settings: PipelineSettings;
+  /**
+   * Tsconfig files returned by `preparePipeline`
+   */
+  tsconfigPaths: string[] | undefined;
+  logger: Logger;
+  reporter: ErrorReporter;
+}
+
+/**
+ * Insert banners, format the project and validate TypeScript, reporting
+ * each phase through the reporter. Phases after a failing one are skipped
+ * when `failOnError` is enabled.
+ */
+export const runBuildPipeline = async (
+  context: BuildPipelineContext
+): Promise<PrettierMaxResult> => {
+  const { rootDir, settings, tsconfigPaths, logger, reporter } = context;
+  const {
+    configPath,
+    formatOnBuild,
+    mode,
+    concurrency,
+    typescriptConcurrency,
+    cache,
+    scope,
+    failOnError,
+    typescript,
+    detectDeprecated,
+    detectDefaultImport,
+    rules,
+    ruleSeverities,
+    bannerExtensions,
+    bannerStyles,
+    banner,
+  } = settings;
+
+  // Findings of the previous build are stale, and file based reporters
+  // rewrite their output from scratch.
+  reporter.clear();
+  const buildChannel = createReporterChannels(reporter);
+  const buildStartTime = Date.now();
+  const phases: BuildPhaseResult[] = [];
+  const formattedFiles: string[] = [];
+
+  const runPhases = async (): Promise<void> => {
+    let scopeFiles: string[] | undefined;
+    try {
+      scopeFiles = await resolveScopeFiles(rootDir, scope);
+      if (scopeFiles) {
+        logger.info(
+          `Scope ${describeScope(scope)}: ${scopeFiles.length} file${scopeFiles.length === 1 ? '' : 's'}`
+        );
+      }
+    } catch (error) {
+      // Widening to every file could rewrite far more than was asked for.
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(
+        `\x1b[31m✗\x1b[0m Could not resolve scope ${describeScope(scope)}, no files are processed: ${message}`
+      );
+      if (failOnError) {
+        throw error;
+      }
+      return;
+    }
+
+    const bannerStartTime = Date.now();
+    let bannerResult: Awaited<ReturnType<typeof applyBanner>>;
+    try {
+      bannerResult = await applyBanner({
+        rootDir,
+        logger,
+        extensions: bannerExtensions,
+        styles: bannerStyles,
+        mode: banner,
+        cache,
+        files: scopeFiles,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : `Unexpected banner error: ${String(error)}`;
+      const bannerDiagnostics = [
+        createPrettierMaxDiagnostic(
+          rootDir,
+          'PMAX000',
+          `Failed to apply banner: ${message}`
+        ),
+      ];
+      buildChannel('banner').report(bannerDiagnostics);
+      phases.push({
+        kind: 'banner',
+        name: 'banner',
+        duration: Date.now() - bannerStartTime,
+        diagnostics: bannerDiagnostics,
+      });
+      if (failOnError) {
+        throw error;
+      }
+    }
+
+    // Without a banner file there is no banner phase.
+    if (bannerResult) {
+      const { diagnostics: bannerDiagnostics, ...bannerSummary } = bannerResult;
+      phases.push({
+        kind: 'banner',
+        name: 'banner',
+        duration: Date.now() - bannerStartTime,
+        diagnostics: bannerDiagnostics,
+        banner: bannerSummary,
+      });
+
+      if (bannerDiagnostics.length > 0) {
+        buildChannel('banner').report(bannerDiagnostics);
+      }
+      // Ambiguous headers are warnings, left for the user to sort out.
+      const warningCount = bannerDiagnostics.filter(
+        (diagnostic) => diagnostic.severity === 'warning'
+      ).length;
+      if (warningCount > 0) {
+        logger.warn(
+          `\x1b[33m⚠\x1b[0m ${warningCount} file${warningCount === 1 ? '' : 's'} with a header that may or may not be the banner`
+        );
+      }
+      const errorCount = bannerDiagnostics.length - warningCount;
+      if (errorCount > 0) {
+        const count = `${errorCount} file${errorCount === 1 ? '' : 's'}`;
+        logger.error(`\x1b[31m✗\x1b[0m ${count} without an up-to-date banner`);
+        if (failOnError) {
+          throw new Error(
+            `Banner check failed: ${count} without an up-to-date banner.`
+          );
+        }
+        logger.warn('\x1b[33m⚠\x1b[0m Build continuing despite banner errors');
+      }
+    }
+
+    // Only run formatting if formatOnBuild is enabled
+    if (!formatOnBuild) {
+      return;
+    }
+
+    logger.info(
+      mode === 'check'
+        ? 'Checking formatting before build...'
+        : 'Formatting files before build...'
+    );
+
+    try {
+      // Run prettier format on the entire project
+      const result = await runPrettierFormatProject(rootDir, configPath, {
+        mode,
+        logger,
+        concurrency,
+        cache,
+        files: scopeFiles,
+      });
+      phases.push({
+        kind: 'prettier',
+        name: 'prettier',
+        duration: result.duration,
+        diagnostics: result.errors,
+      });
+      formattedFiles.push(...result.formattedFiles);
+
+      if (result.errors.length > 0) {
+        // Report errors using the configured reporter
+        buildChannel('prettier').report(result.errors);
+
+        logger.error(
+          mode === 'check'
+            ? `\x1b[31m✗\x1b[0m ${result.errors.length} file${result.errors.length === 1 ? '' : 's'} not formatted`
+            : `\x1b[31m✗\x1b[0m Failed to format ${result.errors.length} file${result.errors.length === 1 ? '' : 's'}`
+        );
+
+        if (failOnError) {
+          // Throw error to stop the build
+          throw new Error(
+            mode === 'check'
+              ? `Prettier formatting failed: ${result.errors.length} file${result.errors.length === 1 ? '' : 's'} not formatted.`
+              : `Prettier formatting failed: ${result.errors.length} file${result.errors.length === 1 ? '' : 's'} could not be formatted.`
+          );
+        } else {
+          logger.warn(
+            '\x1b[33m⚠\x1b[0m Build continuing despite formatting errors'
+          );
+        }
+      } else if (result.formattedFiles.length > 0) {
+        logger.info(
+          `\x1b[32m✓\x1b[0m Formatted ${result.formattedFiles.length} file${result.formattedFiles.length === 1 ? '' : 's'}`
+        );
+        // Log the formatted files
+        for (const file of result.formattedFiles) {
+          const relativePath = file.replace(rootDir + '/', '');
+          logger.info(`  \x1b[90m${relativePath}\x1b[0m`);
+        }
+      } else {
+        logger.info(
+          '\x1b[32m✓\x1b[0m All files are already properly formatted'
+        );
+      }
+
+      logger.info(
+        `\x1b[90mFormatting completed in ${result.duration}ms\x1b[0m`
+      );
+
+      // Run TypeScript validation if enabled and formatting was successful
+      if (typescript && result.errors.length === 0) {
+        const tsVersion = await getTypeScriptVersion();
+        if (tsVersion) {
+          const tsconfigTargets =
+            tsconfigPaths && tsconfigPaths.length > 0
+              ? tsconfigPaths
+              : [undefined];
+          const reportedDiagnostics: Diagnostic[] = [];
+          // Rule findings of every tsconfig form one phase.
+          const ruleDiagnostics: Diagnostic[] = [];
+          // Files shared by several tsconfigs are reported only once.
+          const reportedErrorKeys = new Set<string>();
+          // Runs overlap, so the total is wall-clock time, not a sum.
+          const tsStartTime = Date.now();
+
+          if (tsconfigTargets.length > 1) {
+            logger.info(
+              `Running TypeScript validation for ${tsconfigTargets.length} tsconfig files${typescriptConcurrency > 1 ? ` (up to ${Math.min(Math.floor(typescriptConcurrency), tsconfigTargets.length)} in parallel)` : ''}...`
+            );
+          }
+
+          // Each tsconfig is logged as one group, in the order given.
+          await checkTypeScriptInWorkers({
+            rootDir,
+            tsconfigPaths: tsconfigTargets,
+            detectDeprecated,
+            detectDefaultImport,
+            cache,
+            concurrency: typescriptConcurrency,
+            logger,
+            onOutcome: (index, { result: tsResult, logs }) => {
+              const tsconfigPath = tsconfigTargets[index];
+              const displayTsconfigPath =
+                tsconfigPath !== undefined
+                  ? relative(rootDir, tsconfigPath) || tsconfigPath
+                  : undefined;
+
+              const runLabel =
+                tsconfigTargets.length > 1
+                  ? `Running TypeScript validation (${index + 1}/${tsconfigTargets.length})`
+                  : 'Running TypeScript validation';
+
+              logger.info(
+                displayTsconfigPath
+                  ? `${runLabel} with ${displayTsconfigPath}...`
+                  : `${runLabel}...`
+              );
+              replayLogEntries(logger, logs);
+
+              // The whole program is checked, but only scoped files are reported.
+              const tsDiagnostics = applyRuleSeverities(
+                scopeFiles
+                  ? filterErrorsByScope(rootDir, tsResult.errors, scopeFiles)
+                  : tsResult.errors,
+                rules
+              );
+              const newDiagnostics = tsDiagnostics.filter((diagnostic) => {
+                const key = `${diagnostic.file}:${diagnostic.line ?? ''}:${diagnostic.column ?? ''}:${diagnostic.message}`;
+                if (reportedErrorKeys.has(key)) {
+                  return false;
+                }
+                reportedErrorKeys.add(key);
+                return true;
+              });
+              const duplicateCount =
+                tsDiagnostics.length - newDiagnostics.length;
+              const errorCount = tsDiagnostics.filter(
+                (diagnostic) => diagnostic.severity === 'error'
+              ).length;
+              const warningCount = tsDiagnostics.length - errorCount;
+              const counts = [
+                errorCount > 0
+                  ? `${errorCount} error${errorCount === 1 ? '' : 's'}`
+                  : undefined,
+                warningCount > 0
+                  ? `${warningCount} warning${warningCount === 1 ? '' : 's'}`
+                  : undefined,
+              ]
+                .filter((count) => count)
+                .join(', ');
+              const duplicateNote =
+                duplicateCount > 0
+                  ? ` (${duplicateCount} already reported above)`
+                  : '';
+
+              if (errorCount > 0) {
+                logger.error(
+                  `\x1b[31m✗\x1b[0m TypeScript validation failed${displayTsconfigPath ? ` for ${displayTsconfigPath}` : ''}: ${counts}${duplicateNote}`
+                );
+              } else if (warningCount > 0) {
+                logger.warn(
+                  `\x1b[33m⚠\x1b[0m TypeScript validation passed${displayTsconfigPath ? ` for ${displayTsconfigPath}` : ''} with ${counts}${duplicateNote}`
+                );
+              } else {
+                logger.info(
+                  `\x1b[32m✓\x1b[0m TypeScript validation passed${displayTsconfigPath ? ` for ${displayTsconfigPath}` : ''}`
+                );
+              }
+
+              reportedDiagnostics.push(...newDiagnostics);
+              phases.push({
+                kind: 'typescript',
+                name: displayTsconfigPath
+                  ? `typescript (${displayTsconfigPath})`
+                  : 'typescript',
+                tsconfig: displayTsconfigPath,
+                duration: tsResult.duration,
+                diagnostics: newDiagnostics.filter(
+                  (diagnostic) => !isRuleId(diagnostic.code)
+                ),
+              });
+              ruleDiagnostics.push(
+                ...newDiagnostics.filter((diagnostic) =>
+                  isRuleId(diagnostic.code)
+                )
+              );
+              if (errorCount > 0 && !failOnError) {
+                logger.warn(
+                  '\x1b[33m⚠\x1b[0m Build continuing despite TypeScript errors'
+                );
+              }
+
+              logger.info(
+                `\x1b[90mTypeScript validation completed in ${tsResult.duration}ms${displayTsconfigPath ? ` (${displayTsconfigPath})` : ''}\x1b[0m`
+              );
+            },
+          });
+
+          phases.push({
+            kind: 'rules',
+            name: 'rules',
+            diagnostics: ruleDiagnostics,
+            rules: ruleSeverities,
+          });
+
+          if (tsconfigTargets.length > 1) {
+            logger.info(
+              `\x1b[90mTotal TypeScript validation time: ${Date.now() - tsStartTime}ms\x1b[0m`
+            );
+          }
+
+          // Diagnostics of every tsconfig are reported together, the
+          // reporters print them below the per-tsconfig summaries above.
+          if (reportedDiagnostics.length > 0) {
+            buildChannel('typescript').report(reportedDiagnostics);
+          }
+
+          const aggregatedErrors = reportedDiagnostics.filter(
+            (diagnostic) => diagnostic.severity === 'error'
+          );
+          if (aggregatedErrors.length > 0 && failOnError) {
+            throw new Error(
+              `TypeScript validation failed: ${aggregatedErrors.length} error${aggregatedErrors.length === 1 ? '' : 's'} found.`
+            );
+          }
+        }
+      }
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes('Prettier formatting failed')
+      ) {
+        // Re-throw our own error
+        throw error;
+      }
+      // Log other errors but don't fail the build unless failOnError is true
+      if (error instanceof Error) {
+        logger.error(`Error running prettier format: ${error.message}`);
+      } else {
+        logger.error(`Error running prettier format: ${String(error)}`);
+      }
+      if (failOnError) {
+        throw error;
+      }
+    }
+  };
+
+  let error: unknown;
+  try {
+    await runPhases();
+  } catch (phaseError) {
+    error = phaseError;
+  }
+
+  // Reporters receive the phases that ran, even when the build failed.
+  const build: BuildReport = {
+    phases,
+    duration: Date.now() - buildStartTime,
+    success: phases.every((phase) =>
+      phase.diagnostics.every((diagnostic) => diagnostic.severity !== 'error')
+    ),
+  };
+  reporter.reportBuild?.(build);
+  return {
+    ...build,
+    diagnostics: phases.flatMap((phase) => phase.diagnostics),
+    formattedFiles,
+    ...(error !== undefined ? { error } : {}),
+  };
+};
+
+/**
+ * Reporters given in the options, or the console output when there are none
+ */
+export const createReporters = (
+  rootDir: string,
+  options: PrettierMaxOptions
+): ErrorReporter[] => {
+  const { reporter, codeFrame = false } = options;
+  return reporter === undefined
+    ? [new ConsoleReporter(rootDir, { codeFrame })]
+    : Array.isArray(reporter)
+      ? reporter
+      : [reporter];
+};
+
+/**
+ * One reporter passing every call to the given ones
+ */
+export const combineReporters = (reporters: ErrorReporter[]): ErrorReporter =>
+  reporters.length === 1 ? reporters[0]! : createCompositeReporter(reporters);
+
+/**
+ * Create a function running the pipeline on every call, for bundlers
+ * starting several builds. The project is prepared by the first call.
+ */
+export const createPipelineRunner = (
+  rootDir: string,
+  options: PrettierMaxOptions,
+  logger: Logger
+): (() => Promise<PrettierMaxResult>) => {
+  const settings = resolvePipelineSettings(options);
+  const reporters = createReporters(rootDir, options);
+  for (const target of reporters) {
+    if (target instanceof ConsoleReporter) {
+      target.setBuildMode(true);
+      target.setLogger(logger);
+    }
+  }
+  const reporter = combineReporters(reporters);
+  let prepared: Promise<string[] | undefined> | undefined;
+
+  return async () => {
+    if (!prepared) {
+      prepared = preparePipeline(rootDir, settings, logger);
+      // Prepare again on the next call when it failed
+      prepared.catch(() => {
+        prepared = undefined;
+      });
+    }
+    const tsconfigPaths = await prepared;
+    return runBuildPipeline({
+      rootDir,
+      settings,
+      tsconfigPaths,
+      logger,
+      reporter,
+    });
+  };
+};
+
+/**
+ * Insert banners, format the project and validate TypeScript once, like the
+ * Vite plugin does on build start, without depending on a bundler.
+ * Problems are reported through the reporters and returned in the result,
+ * this function only throws when the project cannot be prepared.
+ */
+export const runPrettierMax = async (
+  options: RunPrettierMaxOptions
+): Promise<PrettierMaxResult> => {
+  const {
+    rootDir,
+    logger = createConsoleLogger('prettier-max'),
+    ...pluginOptions
+  } = options;
+  return createPipelineRunner(resolve(rootDir), pluginOptions, logger)();
+};
@@ -0,0 +1,313 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { existsSync } from 'fs';
+import { readFile, readdir, writeFile } from 'fs/promises';
+import { join, relative, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import ignore, { type Ignore } from 'ignore';
+
+import type { Diagnostic, FormatMode, FormatResult } from './types.js';
+import {
+  createPrettierDiagnostic,
+  NOT_FORMATTED_MESSAGE,
+} from './diagnostics.js';
+
+/**
+ * Subset of the Prettier API used for in-process formatting
+ */
+export type PrettierApi = Pick<
+  typeof import('prettier'),
+  'format' | 'resolveConfig' | 'getFileInfo' | 'clearConfigCache'
+>;
+
+// Prettier CLI reads both files from the working directory by default.
+const IGNORE_FILENAMES = ['.gitignore', '.prettierignore'] as const;
+// Directories Prettier CLI never expands into.
+const SKIP_DIRECTORIES = new Set([
+  'node_modules',
+  '.git',
+  '.sl',
+  '.svn',
+  '.hg',
+  '.jj',
+]);
+
+/**
+ * Fields of Prettier package.json needed to locate its entry point
+ */
+export type PrettierPackageJson = {
+  main?: string;
+  exports?: unknown;
+};
+
+/**
+ * Pick the module entry point out of a Prettier package.json
+ */
+const resolveEntryPoint = (pkg: PrettierPackageJson): string | undefined => {
+  const rootExport =
+    pkg.exports && typeof pkg.exports === 'object'
+      ? (pkg.exports as Record<string, unknown>)['.']
+      : pkg.exports;
+  if (typeof rootExport === 'string') {
+    return rootExport;
+  }
+  if (rootExport && typeof rootExport === 'object') {
+    const conditions = rootExport as Record<string, unknown>;
+    for (const condition of ['import', 'default', 'require']) {
+      const target = conditions[condition];
+      if (typeof target === 'string') {
+        return target;
+      }
+    }
+  }
+  return pkg.main;
+};
+
+/**
+ * Whether a loaded module has the functions of the Prettier API we use
+ */
+const isPrettierApi = (value: unknown): value is PrettierApi => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const api = value as Partial<Record<keyof PrettierApi, unknown>>;
+  return (
+    typeof api.format === 'function' &&
+    typeof api.resolveConfig === 'function' &&
+    typeof api.getFileInfo === 'function' &&
+    typeof api.clearConfigCache === 'function'
+  );
+};
+
+/**
+ * Load the Prettier API from an already resolved package directory.
+ * Returns undefined when the package does not expose a usable API,
+ * so callers can fall back to the CLI.
+ */
+export const loadPrettierApi = async (
+  pkgDir: string,
+  pkg: PrettierPackageJson
+): Promise<PrettierApi | undefined> => {
+  const entry = resolveEntryPoint(pkg);
+  if (!entry) {
+    return undefined;
+  }
+  const entryPath = join(pkgDir, entry);
+  if (!existsSync(entryPath)) {
+    return undefined;
+  }
+
+  try {
+    const mod: unknown = await import(pathToFileURL(entryPath).href);
+    // CommonJS builds are imported as the default export.
+    if (isPrettierApi(mod)) {
+      return mod;
+    }
+    return typeof mod === 'object' &&
+      mod !== null &&
+      'default' in mod &&
+      isPrettierApi(mod.default)
+      ? mod.default
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Locate the first line and column where formatted output diverges
+ */
+export const findFirstDifference = (
+  original: string,
+  formatted: string
+): { line: number; column: number } => {
+  const length = Math.min(original.length, formatted.length);
+  let index = 0;
+  while (index < length && original[index] === formatted[index]) {
+    index++;
+  }
+
+  const preceding = original.slice(0, index);
+  const lastNewline = preceding.lastIndexOf('\n');
+  return {
+    line: preceding.split('\n').length,
+    column: index - lastNewline,
+  };
+};
+
+/**
+ * Build an ignore matcher from the ignore files Prettier CLI honours.
+ */
+const loadIgnoreMatcher = async (rootDir: string): Promise<Ignore> => {
+  const matcher = ignore();
+  for (const fileName of IGNORE_FILENAMES) {
+    try {
+      matcher.add(await readFile(join(rootDir, fileName), 'utf-8'));
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException | undefined;
+      if (!err || err.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+  return matcher;
+};
+
+/**
+ * Enumerate project files the way `prettier .` expands a directory.
+ * Parser inference is left to `getFileInfo`.
+ */
+export const collectProjectFiles = async (
+  rootDir: string
+): Promise<string[]> => {
+  const matcher = await loadIgnoreMatcher(rootDir);
+  const files: string[] = [];
+  const queue: string[] = [rootDir];
+
+  while (queue.length > 0) {
+    const current = queue.pop()!;
+    const entries = await readdir(current, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = join(current, entry.name);
+      const relPath = relative(rootDir, fullPath).split('\\').join('/');
+
+      if (entry.isDirectory()) {
+        // Prune ignored directories early so large build outputs are never walked.
+        if (SKIP_DIRECTORIES.has(entry.name)) {
+          continue;
+        }
+        if (matcher.ignores(`${relPath}/`)) {
+          continue;
+        }
+        queue.push(fullPath);
+        continue;
+      }
+
+      if (entry.isFile() && !matcher.ignores(relPath)) {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  files.sort();
+  return files;
+};
+
+/**
+ * Convert a Prettier failure into a located diagnostic
+ */
+const toPrettierDiagnostic = (file: string, error: unknown): Diagnostic => {
+  if (!(error instanceof Error)) {
+    return createPrettierDiagnostic(
+      file,
+      'PRETTIER002',
+      `Prettier error: ${String(error)}`
+    );
+  }
+
+  // Syntax errors carry a code frame after the first line, and the location
+  // is duplicated as "(line:column)"; both are reported structurally instead.
+  const [firstLine = ''] = error.message.split('\n');
+  const summary = firstLine.replace(/\s*\(\d+:\d+\)$/, '');
+  const loc = (
+    error as {
+      loc?: {
+        start?: { line?: number; column?: number };
+        end?: { line?: number; column?: number };
+      };
+    }
+  ).loc;
+
+  return createPrettierDiagnostic(
+    file,
+    'PRETTIER002',
+    `${error.name}: ${summary}`,
+    {
+      line: loc?.start?.line,
+      column: loc?.start?.column,
+      endLine: loc?.end?.line,
+      endColumn: loc?.end?.column,
+    }
+  );
+};
+
+interface FormatWithApiOptions {
+  rootDir: string;
+  files: string[];
+  configPath: string | undefined;
+  mode: FormatMode;
+}
+
+/**
+ * Format the given files in-process through the Prettier API
+ */
+export const formatFilesWithApi = async (
+  prettier: PrettierApi,
+  options: FormatWithApiOptions
+): Promise<FormatResult> => {
+  const { rootDir, files, configPath, mode } = options;
+  const startTime = Date.now();
+  const errors: Diagnostic[] = [];
+  const formattedFiles: string[] = [];
+  const ignorePath = IGNORE_FILENAMES.map((fileName) =>
+    join(rootDir, fileName)
+  );
+  const config = configPath ? resolve(rootDir, configPath) : undefined;
+
+  // The API caches resolved configs per process; drop them so edits to
+  // .prettierrc are picked up by long-lived dev servers.
+  await prettier.clearConfigCache();
+
+  for (const file of files) {
+    try {
+      const fileInfo = await prettier.getFileInfo(file, {
+        ignorePath,
+        resolveConfig: true,
+      });
+      if (fileInfo.ignored || !fileInfo.inferredParser) {
+        continue;
+      }
+
+      const resolvedConfig = await prettier.resolveConfig(file, {
+        config,
+        editorconfig: true,
+      });
+      const input = await readFile(file, 'utf-8');
+      const output = await prettier.format(input, {
+        ...resolvedConfig,
+        filepath: file,
+      });
+
+      if (output === input) {
+        continue;
+      }
+
+      if (mode === 'check') {
+        const { line, column } = findFirstDifference(input, output);
+        errors.push(
+          createPrettierDiagnostic(file, 'PRETTIER001', NOT_FORMATTED_MESSAGE, {
+            line,
+            column,
+          })
+        );
+        continue;
+      }
+
+      await writeFile(file, output, 'utf-8');
+      formattedFiles.push(file);
+    } catch (error) {
+      errors.push(toPrettierDiagnostic(file, error));
+    }
+  }
+
+  return {
+    success: errors.length === 0,
+    errors,
+    formattedFiles,
+    duration: Date.now() - startTime,
+  };
+};
@@ -0,0 +1,41 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import type { ErrorReporter, Diagnostic } from '../types.js';
+
+/**
+ * Split one reporter into named channels, each owning part of the errors.
+ * The underlying reporter always receives the errors of every channel,
+ * so one source clearing its errors does not hide those of another.
+ */
+export const createReporterChannels = (
+  reporter: ErrorReporter
+): ((name: string) => ErrorReporter) => {
+  const errorsByChannel = new Map<string, Diagnostic[]>();
+
+  const publish = (): void => {
+    const errors = Array.from(errorsByChannel.values()).flat();
+    if (errors.length > 0) {
+      reporter.report(errors);
+    } else {
+      reporter.clear();
+    }
+  };
+
+  return (name: string): ErrorReporter => ({
+    report: (errors) => {
+      if (errors.length > 0) {
+        errorsByChannel.set(name, errors);
+      } else {
+        errorsByChannel.delete(name);
+      }
+      publish();
+    },
+    clear: () => {
+      errorsByChannel.delete(name);
+      publish();
+    },
+  });
+};
@@ -0,0 +1,29 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import type { ErrorReporter } from '../types.js';
+
+/**
+ * Combine reporters into one, each receiving every call in the given order
+ */
+export const createCompositeReporter = (
+  reporters: ErrorReporter[]
+): ErrorReporter => ({
+  report: (errors) => {
+    for (const reporter of reporters) {
+      reporter.report(errors);
+    }
+  },
+  clear: () => {
+    for (const reporter of reporters) {
+      reporter.clear();
+    }
+  },
+  reportBuild: (build) => {
+    for (const reporter of reporters) {
+      reporter.reportBuild?.(build);
+    }
+  },
+});
@@ -6,20 +6,99 @@
 import { relative, resolve } from 'path';
 import type { Logger } from '../logger.js';
 import { BaseErrorReporter } from './interface.js';
-import type { PrettierError } from '../types.js';
+import type { CodeFrameOptions, Diagnostic, PrettierError } from '../types.js';
+import { readCodeFrame } from '../codeFrame.js';
+import { isColorEnabled, paint } from '../colors.js';
+
+/**
+ * "severity CODE: message" part of the tsc output format.
+ * Plain PrettierError objects from older callers lack the code and are
+ * reported as formatting errors, as before.
+ */
+const describeDiagnostic = (
+  error: PrettierError & Partial<Diagnostic>
+): string =>
+  `${error.severity ?? 'error'} ${error.code ?? 'PRETTIER001'}: ${error.messageText ?? error.message}`;
+
+/**
+ * Count text such as "2 files"
+ */
+const countOf = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Summary lines of the diagnostics of each source, for the dev mode output
+ */
+const summarizeDiagnostics = (
+  errors: (PrettierError & Partial<Diagnostic>)[]
+): string[] => {
+  const bySource = (source: Diagnostic['source']) =>
+    errors.filter((error) => (error.source ?? 'prettier') === source);
+  const unformatted = new Set(bySource('prettier').map(({ file }) => file));
+  const typescript = bySource('typescript').length;
+  const prettierMax = bySource('prettier-max').length;
+  return [
+    ...(unformatted.size > 0
+      ? [
+          `${countOf(unformatted.size, 'file')} need${unformatted.size === 1 ? 's' : ''} formatting`,
+        ]
+      : []),
+    ...(typescript > 0
+      ? [`${countOf(typescript, 'TypeScript problem')} found`]
+      : []),
+    ...(prettierMax > 0
+      ? [`${countOf(prettierMax, 'prettier-max problem')} found`]
+      : []),
+  ];
+};
+
+/**
+ * Identity of a diagnostic, to tell which ones were already printed
+ */
+const toDiagnosticKey = (error: PrettierError & Partial<Diagnostic>): string =>
+  `${error.file}:${error.line ?? ''}:${error.column ?? ''}:${error.code ?? ''}:${error.message}`;
+
+/**
+ * ConsoleReporter options
+ */
+export interface ConsoleReporterOptions {
+  /**
+   * Print the source around each diagnostic with a caret under the column.
+   * `true` shows 2 lines above and 3 below.
+   * @default false
+   */
+  codeFrame?: boolean | CodeFrameOptions;
+  /**
+   * Colorize the output
+   * @default Enabled on terminals, `NO_COLOR` disables and `FORCE_COLOR` enables it
+   */
+  color?: boolean;
+}
 
 /**
  * Console reporter for IDE integration
  */
 export class ConsoleReporter extends BaseErrorReporter {
   private readonly cwd: string;
+  private readonly codeFrame: CodeFrameOptions | undefined;
+  private readonly color: boolean;
   private hasReportedErrors = false;
+  // Reports carry every outstanding diagnostic, also those of other phases
+  // or sources, and only the ones not printed yet are printed again.
+  private printed = new Set<string>();
   private isBuildMode = false;
   private logger: Logger | undefined;
 
-  constructor(cwd?: string) {
+  constructor(cwd?: string, options: ConsoleReporterOptions = {}) {
     super();
     this.cwd = cwd ?? process.cwd();
+    this.codeFrame =
+      options.codeFrame === true
+        ? {}
+        : options.codeFrame === false
+          ? undefined
+          : options.codeFrame;
+    this.color = options.color ?? isColorEnabled();
   }
 
   /**
@@ -36,32 +115,56 @@ export class ConsoleReporter extends BaseErrorReporter {
     this.logger = logger;
   }
 
-  report(errors: PrettierError[]): void {
-    this.errors = errors;
+  report(reported: (PrettierError & Partial<Diagnostic>)[]): void {
+    this.errors = reported;
+    const printed = this.printed;
+    this.printed = new Set(reported.map(toDiagnosticKey));
+    const errors = reported.filter(
+      (error) => !printed.has(toDiagnosticKey(error))
+    );
 
-    if (errors.length === 0) {
+    if (reported.length === 0) {
       if (this.hasReportedErrors && !this.isBuildMode) {
-        console.log('\x1b[32m✓\x1b[0m All files are properly formatted');
+        console.log(
+          `${paint(this.color, '\x1b[32m', '✓')} All files are properly formatted`
+        );
         this.hasReportedErrors = false;
       }
       return;
     }
+    if (errors.length === 0) {
+      return;
+    }
 
     this.hasReportedErrors = true;
 
     if (!this.isBuildMode) {
-      console.log('\x1b[31m✗\x1b[0m Prettier format check failed:');
+      console.log(`${paint(this.color, '\x1b[31m', '✗')} Check failed:`);
       console.log('');
     }
 
     errors.forEach((error) => {
-      const relativePath = relative(this.cwd, error.file);
+      // TypeScript diagnostics carry paths relative to the project root
+      const relativePath = relative(this.cwd, resolve(this.cwd, error.file));
+      // Warnings from rules configured as 'warn' do not fail the build
+      const isError = (error.severity ?? 'error') === 'error';
       const location =
         error.line && error.column
           ? `:${error.line}:${error.column}`
           : error.line
             ? `:${error.line}`
             : '';
+      // Shown below the diagnostic line, within the same message
+      const frame = this.codeFrame
+        ? readCodeFrame(
+            this.cwd,
+            error,
+            this.codeFrame,
+            this.color ? (isError ? '\x1b[31m' : '\x1b[33m') : undefined
+          )
+        : undefined;
+      const withFrame = (message: string) =>
+        frame ? `${message}\n${frame}` : message;
 
       // VSCode Problem Matcher compatible format
       // Use TypeScript format when logger is available (both build and dev mode)
@@ -69,37 +172,64 @@ export class ConsoleReporter extends BaseErrorReporter {
         // TypeScript error format with color: filename(line,col): error CODE: message
         const line = error.line || 1;
         const column = error.column || 1;
-        this.logger.error(
-          `${relativePath}(${line},${column}): error PRETTIER001: ${error.message}`
+        // Problems of the whole project, such as a failing check, have no location
+        (isError ? this.logger.error : this.logger.warn)(
+          withFrame(
+            relativePath
+              ? `${relativePath}(${line},${column}): ${describeDiagnostic(error)}`
+              : describeDiagnostic(error)
+          )
         );
       } else if (this.isBuildMode) {
         // Fallback to console.error if logger is not available (build mode)
         const line = error.line || 1;
         const column = error.column || 1;
-        console.error(
-          `${resolve(this.cwd, relativePath)}(${line},${column}): error PRETTIER001: ${error.message}`
+        (isError ? console.error : console.warn)(
+          withFrame(
+            `${resolve(this.cwd, relativePath)}(${line},${column}): ${describeDiagnostic(error)}`
+          )
         );
       } else {
         // Dev mode without logger - use colored output
         console.log(
-          `\x1b[31m${relativePath}${location}: error: ${error.message}\x1b[0m`
+          withFrame(
+            isError
+              ? paint(
+                  this.color,
+                  '\x1b[31m',
+                  `${relativePath}${location}: error: ${error.message}`
+                )
+              : paint(
+                  this.color,
+                  '\x1b[33m',
+                  `${relativePath}${location}: warning: ${error.message}`
+                )
+          )
         );
       }
     });
 
     if (!this.isBuildMode) {
       console.log('');
-      console.log(
-        `\x1b[33m${errors.length} file${errors.length === 1 ? '' : 's'} need${errors.length === 1 ? 's' : ''} formatting\x1b[0m`
+      summarizeDiagnostics(errors).forEach((line) =>
+        console.log(paint(this.color, '\x1b[33m', line))
       );
-      console.log('Run \x1b[36mprettier --write\x1b[0m to fix');
+      // Only formatting problems are fixed by Prettier
+      if (errors.some((error) => (error.source ?? 'prettier') === 'prettier')) {
+        console.log(
+          `Run ${paint(this.color, '\x1b[36m', 'prettier --write')} to fix`
+        );
+      }
     }
   }
 
   clear(): void {
     this.errors = [];
+    this.printed.clear();
     if (this.hasReportedErrors) {
-      console.log('\x1b[32m✓\x1b[0m Prettier check cleared');
+      console.log(
+        `${paint(this.color, '\x1b[32m', '✓')} Prettier check cleared`
+      );
       this.hasReportedErrors = false;
     }
   }
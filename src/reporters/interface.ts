@@ -3,7 +3,7 @@
 // Under MIT.
 // https://github.com/kekyo/prettier-max/
 
-import type { PrettierError, ErrorReporter } from '../types.js';
+import type { Diagnostic, ErrorReporter, PrettierError } from '../types.js';
 
 /**
  * Base abstract class for error reporters
@@ -11,11 +11,11 @@ import type { PrettierError, ErrorReporter } from '../types.js';
 export abstract class BaseErrorReporter implements ErrorReporter {
   protected errors: PrettierError[] = [];
 
-  abstract report(errors: PrettierError[]): void;
+  abstract report(errors: Diagnostic[]): void;
   abstract clear(): void;
 }
 
 /**
  * Re-export interface for convenience
  */
-export type { ErrorReporter, PrettierError } from '../types.js';
+export type { ErrorReporter, Diagnostic, PrettierError } from '../types.js';
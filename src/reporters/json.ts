@@ -0,0 +1,81 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { resolve } from 'path';
+import { BaseErrorReporter } from './interface.js';
+import { toProjectPath, writeReportFile } from './output.js';
+import type { BuildReport, Diagnostic } from '../types.js';
+import { version } from '../generated/packageMetadata.js';
+
+/**
+ * JsonReporter options
+ */
+export interface JsonReporterOptions {
+  /**
+   * Path of the JSON file, relative paths are resolved against cwd
+   * @default 'prettier-max.json'
+   */
+  outputPath?: string;
+  /**
+   * Project root that reported paths are relative to
+   * @default process.cwd()
+   */
+  cwd?: string;
+}
+
+/**
+ * Reporter writing the results of each build as JSON, grouped by phase.
+ * The document is the `BuildReport` with paths relative to the project root.
+ */
+export class JsonReporter extends BaseErrorReporter {
+  private readonly cwd: string;
+  readonly outputPath: string;
+
+  constructor(options: JsonReporterOptions = {}) {
+    super();
+    this.cwd = options.cwd ?? process.cwd();
+    this.outputPath = resolve(
+      this.cwd,
+      options.outputPath ?? 'prettier-max.json'
+    );
+  }
+
+  report(errors: Diagnostic[]): void {
+    this.errors = errors;
+  }
+
+  clear(): void {
+    this.errors = [];
+  }
+
+  reportBuild(build: BuildReport): void {
+    const toRelative = (diagnostic: Diagnostic): Diagnostic => ({
+      ...diagnostic,
+      file: toProjectPath(this.cwd, diagnostic.file),
+      relatedInformation: diagnostic.relatedInformation?.map((related) => ({
+        ...related,
+        file: toProjectPath(this.cwd, related.file),
+      })),
+      fix: diagnostic.fix && {
+        ...diagnostic.fix,
+        edits: diagnostic.fix.edits.map((edit) => ({
+          ...edit,
+          file: toProjectPath(this.cwd, edit.file),
+        })),
+      },
+    });
+
+    const document = {
+      tool: { name: 'prettier-max', version },
+      success: build.success,
+      duration: build.duration,
+      phases: build.phases.map((phase) => ({
+        ...phase,
+        diagnostics: phase.diagnostics.map(toRelative),
+      })),
+    };
+    writeReportFile(this.outputPath, JSON.stringify(document, null, 2) + '\n');
+  }
+}
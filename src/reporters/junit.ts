@@ -0,0 +1,186 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { resolve } from 'path';
+import { BaseErrorReporter } from './interface.js';
+import { toProjectPath, writeReportFile } from './output.js';
+import type {
+  BuildPhaseResult,
+  BuildReport,
+  Diagnostic,
+  RuleId,
+} from '../types.js';
+
+/**
+ * JUnitReporter options
+ */
+export interface JUnitReporterOptions {
+  /**
+   * Path of the JUnit XML file, relative paths are resolved against cwd
+   * @default 'prettier-max-junit.xml'
+   */
+  outputPath?: string;
+  /**
+   * Project root that reported paths are relative to
+   * @default process.cwd()
+   */
+  cwd?: string;
+}
+
+interface TestCase {
+  name: string;
+  skipped: boolean;
+  diagnostics: Diagnostic[];
+}
+
+const RULE_IDS: readonly RuleId[] = ['PMAX001', 'PMAX002', 'PMAX003'];
+
+// Characters XML 1.0 cannot carry even when escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g;
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toSeconds = (duration: number): string => (duration / 1000).toFixed(3);
+
+const isFailure = (diagnostic: Diagnostic): boolean =>
+  diagnostic.severity === 'error';
+
+/**
+ * Reporter writing the results of each build as JUnit XML, one test suite
+ * per phase. Files with error-level diagnostics are failing test cases.
+ */
+export class JUnitReporter extends BaseErrorReporter {
+  private readonly cwd: string;
+  readonly outputPath: string;
+
+  constructor(options: JUnitReporterOptions = {}) {
+    super();
+    this.cwd = options.cwd ?? process.cwd();
+    this.outputPath = resolve(
+      this.cwd,
+      options.outputPath ?? 'prettier-max-junit.xml'
+    );
+  }
+
+  report(errors: Diagnostic[]): void {
+    this.errors = errors;
+  }
+
+  clear(): void {
+    this.errors = [];
+  }
+
+  reportBuild(build: BuildReport): void {
+    const suites = build.phases.map((phase) => ({
+      phase,
+      testCases: this.toTestCases(phase),
+    }));
+    const count = (predicate: (testCase: TestCase) => boolean) =>
+      suites.reduce(
+        (total, { testCases }) => total + testCases.filter(predicate).length,
+        0
+      );
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="prettier-max" tests="${count(() => true)}" failures="${count((testCase) => testCase.diagnostics.some(isFailure))}" errors="0" skipped="${count((testCase) => testCase.skipped)}" time="${toSeconds(build.duration)}">`,
+      ...suites.flatMap(({ phase, testCases }) =>
+        this.formatSuite(phase, testCases)
+      ),
+      '</testsuites>',
+    ];
+    writeReportFile(this.outputPath, lines.join('\n') + '\n');
+  }
+
+  /**
+   * One test case per rule for the rules phase, otherwise per file with
+   * diagnostics, or a single passing case named after the phase
+   */
+  private toTestCases(phase: BuildPhaseResult): TestCase[] {
+    if (phase.kind === 'rules') {
+      return RULE_IDS.map((id) => ({
+        name: id,
+        skipped: phase.rules?.[id] === 'off',
+        diagnostics: phase.diagnostics.filter(
+          (diagnostic) => diagnostic.code === id
+        ),
+      }));
+    }
+
+    const byFile = new Map<string, Diagnostic[]>();
+    for (const diagnostic of phase.diagnostics) {
+      const file = toProjectPath(this.cwd, diagnostic.file);
+      byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+    }
+    if (byFile.size === 0) {
+      return [{ name: phase.name, skipped: false, diagnostics: [] }];
+    }
+    return Array.from(byFile, ([file, diagnostics]) => ({
+      name: file,
+      skipped: false,
+      diagnostics,
+    }));
+  }
+
+  private describe(diagnostic: Diagnostic): string {
+    const file = toProjectPath(this.cwd, diagnostic.file);
+    const location =
+      diagnostic.line !== undefined
+        ? `${file}:${diagnostic.line}:${diagnostic.column ?? 1}`
+        : file;
+    return `${location} ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.messageText}`;
+  }
+
+  private formatSuite(
+    phase: BuildPhaseResult,
+    testCases: TestCase[]
+  ): string[] {
+    const failures = testCases.filter((testCase) =>
+      testCase.diagnostics.some(isFailure)
+    ).length;
+    const skipped = testCases.filter((testCase) => testCase.skipped).length;
+    const time =
+      phase.duration !== undefined
+        ? ` time="${toSeconds(phase.duration)}"`
+        : '';
+    const suiteName = escapeXml(phase.name);
+
+    return [
+      `  <testsuite name="${suiteName}" tests="${testCases.length}" failures="${failures}" errors="0" skipped="${skipped}"${time}>`,
+      ...testCases.flatMap((testCase) => {
+        const open = `    <testcase classname="${suiteName}" name="${escapeXml(testCase.name)}"`;
+        const errors = testCase.diagnostics.filter(isFailure);
+        const others = testCase.diagnostics.filter(
+          (diagnostic) => !isFailure(diagnostic)
+        );
+        const body = [
+          ...(testCase.skipped ? ['      <skipped/>'] : []),
+          ...(errors.length > 0
+            ? [
+                `      <failure message="${escapeXml(errors[0]!.messageText)}" type="${escapeXml(errors[0]!.code)}">${escapeXml(errors.map((error) => this.describe(error)).join('\n'))}</failure>`,
+              ]
+            : []),
+          // JUnit has no warnings, so they are only shown as output.
+          ...(others.length > 0
+            ? [
+                `      <system-out>${escapeXml(others.map((other) => this.describe(other)).join('\n'))}</system-out>`,
+              ]
+            : []),
+        ];
+        return body.length > 0
+          ? [`${open}>`, ...body, '    </testcase>']
+          : [`${open}/>`];
+      }),
+      '  </testsuite>',
+    ];
+  }
+}
@@ -0,0 +1,29 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+
+/**
+ * Write a report file, creating its directory when needed.
+ * Synchronous, since reporters are called synchronously.
+ */
+export const writeReportFile = (outputPath: string, content: string): void => {
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, content, 'utf-8');
+};
+
+/**
+ * Path of a file relative to the project root with forward slashes,
+ * or its absolute path when it is outside of the root
+ */
+export const toProjectPath = (cwd: string, file: string): string => {
+  const absolutePath = resolve(cwd, file);
+  const relativePath = relative(cwd, absolutePath);
+  if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    return absolutePath;
+  }
+  return relativePath.split(sep).join('/');
+};
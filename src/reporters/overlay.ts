@@ -0,0 +1,89 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { BaseErrorReporter } from './interface.js';
+import { toProjectPath } from './output.js';
+import { readCodeFrame } from '../codeFrame.js';
+import { OVERLAY_EVENT, OVERLAY_REQUEST_EVENT } from '../overlayClient.js';
+import type {
+  Diagnostic,
+  DiagnosticSeverity,
+  PrettierError,
+} from '../types.js';
+
+/**
+ * Diagnostic as shown in the browser panel
+ */
+export interface OverlayDiagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  frame?: string;
+}
+
+export interface OverlayPayload {
+  diagnostics: OverlayDiagnostic[];
+}
+
+/**
+ * Part of the dev server HMR channel (`server.ws`) used by the reporter
+ */
+export interface OverlayChannel {
+  send(event: string, payload?: OverlayPayload): void;
+  on(
+    event: string,
+    listener: (
+      data: unknown,
+      client: { send(event: string, payload?: OverlayPayload): void }
+    ) => void
+  ): void;
+}
+
+/**
+ * Reporter showing diagnostics in a panel of the pages served by the dev server.
+ * Clients loaded later receive the current diagnostics when they ask for them.
+ */
+export class OverlayReporter extends BaseErrorReporter {
+  private readonly channel: OverlayChannel;
+  private readonly cwd: string;
+  private payload: OverlayPayload = { diagnostics: [] };
+
+  constructor(channel: OverlayChannel, cwd?: string) {
+    super();
+    this.channel = channel;
+    this.cwd = cwd ?? process.cwd();
+    this.channel.on(OVERLAY_REQUEST_EVENT, (_data, client) => {
+      client.send(OVERLAY_EVENT, this.payload);
+    });
+  }
+
+  report(errors: (PrettierError & Partial<Diagnostic>)[]): void {
+    this.errors = errors;
+    this.publish({
+      diagnostics: errors.map((error) => ({
+        file: toProjectPath(this.cwd, error.file),
+        line: error.line,
+        column: error.column,
+        severity: error.severity ?? 'error',
+        code: error.code ?? 'PRETTIER001',
+        message: error.messageText ?? error.message,
+        frame: readCodeFrame(this.cwd, error),
+      })),
+    });
+  }
+
+  clear(): void {
+    this.errors = [];
+    this.publish({ diagnostics: [] });
+  }
+
+  private publish(payload: OverlayPayload): void {
+    this.payload = payload;
+    this.channel.send(OVERLAY_EVENT, payload);
+  }
+}
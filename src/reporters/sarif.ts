@@ -0,0 +1,275 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { isAbsolute, resolve, sep } from 'path';
+import { pathToFileURL } from 'url';
+import { BaseErrorReporter } from './interface.js';
+import { toProjectPath, writeReportFile } from './output.js';
+import type {
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTextEdit,
+  PrettierError,
+} from '../types.js';
+import { version } from '../generated/packageMetadata.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/kekyo/prettier-max/';
+const SOURCE_ROOT = '%SRCROOT%';
+
+/**
+ * SarifReporter options
+ */
+export interface SarifReporterOptions {
+  /**
+   * Path of the SARIF log, relative paths are resolved against cwd
+   * @default 'prettier-max.sarif'
+   */
+  outputPath?: string;
+  /**
+   * Project root that artifact URIs are relative to
+   * @default process.cwd()
+   */
+  cwd?: string;
+}
+
+interface RuleMetadata {
+  id: string;
+  name: string;
+  shortDescription: string;
+  fullDescription: string;
+  helpAnchor: string;
+  /**
+   * Level of the rule by default, an error unless given
+   */
+  level?: 'error' | 'warning';
+}
+
+// Rules of prettier-max itself; TypeScript codes are reported without metadata.
+const RULES: readonly RuleMetadata[] = [
+  {
+    id: 'PMAX001',
+    name: 'DeprecatedUsage',
+    shortDescription: 'Deprecated symbol is used',
+    fullDescription:
+      'A symbol marked with the @deprecated JSDoc tag is used. Suppress a single line with a @prettier-max-ignore-deprecated directive.',
+    helpAnchor: 'deprecated-detection',
+  },
+  {
+    id: 'PMAX002',
+    name: 'UnnecessarySuppression',
+    shortDescription: 'Suppression directive suppresses nothing',
+    fullDescription:
+      'A @prettier-max-ignore-deprecated directive is not followed by a line using a deprecated symbol.',
+    helpAnchor: 'deprecated-detection',
+  },
+  {
+    id: 'PMAX003',
+    name: 'DefaultImport',
+    shortDescription: 'Default import or export is used',
+    fullDescription:
+      'A default import or export may resolve to the module object at runtime because of ESM/CJS interop.',
+    helpAnchor: 'default-import-detection-advanced-option',
+  },
+  {
+    id: 'PMAX004',
+    name: 'MissingBanner',
+    shortDescription: 'File does not have the banner',
+    fullDescription:
+      'The file does not start with the banner of .prettierbanner. Banner check mode reports it instead of inserting the banner.',
+    helpAnchor: 'inserting-source-code-banners-headers',
+  },
+  {
+    id: 'PMAX005',
+    name: 'OutdatedBanner',
+    shortDescription: 'Banner differs from .prettierbanner',
+    fullDescription:
+      'The file starts with a banner that differs from .prettierbanner. Banner check mode reports it instead of replacing the banner.',
+    helpAnchor: 'inserting-source-code-banners-headers',
+  },
+  {
+    id: 'PMAX006',
+    name: 'AmbiguousBannerHeader',
+    shortDescription: 'Header may or may not be the banner',
+    fullDescription:
+      'The file starts with a header that is neither clearly the banner of .prettierbanner, or a previous version of it, nor a foreign header such as a third-party license. It is left as is.',
+    helpAnchor: 'inserting-source-code-banners-headers',
+    level: 'warning',
+  },
+  {
+    id: 'PRETTIER001',
+    name: 'NotFormatted',
+    shortDescription: 'File is not formatted with Prettier',
+    fullDescription:
+      'The file differs from the output of Prettier; the region marks the first difference.',
+    helpAnchor: 'check-mode',
+  },
+  {
+    id: 'PRETTIER002',
+    name: 'FormatFailed',
+    shortDescription: 'Prettier failed on the file',
+    fullDescription:
+      'Prettier could not format the file, typically because of a syntax error.',
+    helpAnchor: 'check-mode',
+  },
+];
+
+const toLevel = (severity: DiagnosticSeverity | undefined): string =>
+  severity === 'warning' ? 'warning' : severity === 'info' ? 'note' : 'error';
+
+/**
+ * Reporter writing diagnostics as a SARIF 2.1.0 log for code scanning.
+ * The log is rewritten on every report, and emptied by clear.
+ */
+export class SarifReporter extends BaseErrorReporter {
+  private readonly cwd: string;
+  readonly outputPath: string;
+
+  constructor(options: SarifReporterOptions = {}) {
+    super();
+    this.cwd = options.cwd ?? process.cwd();
+    this.outputPath = resolve(
+      this.cwd,
+      options.outputPath ?? 'prettier-max.sarif'
+    );
+  }
+
+  report(errors: (PrettierError & Partial<Diagnostic>)[]): void {
+    this.errors = errors;
+    this.write(errors);
+  }
+
+  clear(): void {
+    this.errors = [];
+    this.write([]);
+  }
+
+  private write(errors: (PrettierError & Partial<Diagnostic>)[]): void {
+    writeReportFile(
+      this.outputPath,
+      JSON.stringify(this.createLog(errors), null, 2) + '\n'
+    );
+  }
+
+  /**
+   * Artifact location of a file, relative to the project root when inside it
+   */
+  private toArtifactLocation(file: string): Record<string, string> {
+    const path = toProjectPath(this.cwd, file);
+    if (isAbsolute(path)) {
+      return { uri: pathToFileURL(path).href };
+    }
+    return {
+      uri: path.split('/').map(encodeURIComponent).join('/'),
+      uriBaseId: SOURCE_ROOT,
+    };
+  }
+
+  private toPhysicalLocation(location: {
+    file: string;
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+  }): Record<string, unknown> {
+    const region =
+      location.line !== undefined
+        ? {
+            startLine: location.line,
+            startColumn: location.column,
+            endLine: location.endLine,
+            endColumn: location.endColumn,
+          }
+        : undefined;
+    return {
+      artifactLocation: this.toArtifactLocation(location.file),
+      region,
+    };
+  }
+
+  private toFix(
+    description: string,
+    edits: DiagnosticTextEdit[]
+  ): Record<string, unknown> {
+    const files = Array.from(new Set(edits.map((edit) => edit.file)));
+    return {
+      description: { text: description },
+      artifactChanges: files.map((file) => ({
+        artifactLocation: this.toArtifactLocation(file),
+        replacements: edits
+          .filter((edit) => edit.file === file)
+          .map((edit) => ({
+            deletedRegion: {
+              startLine: edit.line,
+              startColumn: edit.column,
+              endLine: edit.endLine,
+              endColumn: edit.endColumn,
+            },
+            insertedContent: { text: edit.newText },
+          })),
+      })),
+    };
+  }
+
+  private createLog(
+    errors: (PrettierError & Partial<Diagnostic>)[]
+  ): Record<string, unknown> {
+    const results = errors.map((error) => {
+      // Errors without a code predate Diagnostic and come from formatting.
+      const ruleId = error.code ?? 'PRETTIER001';
+      const ruleIndex = RULES.findIndex((rule) => rule.id === ruleId);
+      // A location on the project root itself is not tied to any file.
+      const located = resolve(this.cwd, error.file) !== this.cwd;
+      return {
+        ruleId,
+        ruleIndex: ruleIndex >= 0 ? ruleIndex : undefined,
+        level: toLevel(error.severity),
+        message: { text: error.messageText ?? error.message },
+        locations: located
+          ? [{ physicalLocation: this.toPhysicalLocation(error) }]
+          : undefined,
+        relatedLocations: error.relatedInformation?.map((related, index) => ({
+          id: index,
+          physicalLocation: this.toPhysicalLocation(related),
+          message: { text: related.message },
+        })),
+        fixes: error.fix
+          ? [this.toFix(error.fix.description, error.fix.edits)]
+          : undefined,
+        properties: error.source ? { source: error.source } : undefined,
+      };
+    });
+
+    return {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'prettier-max',
+              version,
+              informationUri: INFORMATION_URI,
+              rules: RULES.map((rule) => ({
+                id: rule.id,
+                name: rule.name,
+                shortDescription: { text: rule.shortDescription },
+                fullDescription: { text: rule.fullDescription },
+                helpUri: `${INFORMATION_URI}#${rule.helpAnchor}`,
+                defaultConfiguration: { level: rule.level ?? 'error' },
+              })),
+            },
+          },
+          originalUriBaseIds: {
+            [SOURCE_ROOT]: {
+              uri: pathToFileURL(this.cwd + sep).href,
+            },
+          },
+          results,
+        },
+      ],
+    };
+  }
+}
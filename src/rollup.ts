@@ -0,0 +1,109 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import type { Plugin, RollupLog } from 'rollup';
+import { resolve } from 'path';
+import type { BundlerPluginOptions, Diagnostic } from './types.js';
+import { createConsoleLogger } from './logger.js';
+import { readCodeFrame } from './codeFrame.js';
+import { toProjectPath } from './reporters/output.js';
+import { createPipelineRunner } from './pipeline.js';
+
+/**
+ * Rollup log of a diagnostic, located with a 0-based column
+ */
+const toRollupLog = (rootDir: string, diagnostic: Diagnostic): RollupLog => {
+  const message = `${diagnostic.code}: ${diagnostic.messageText}`;
+  const file = resolve(rootDir, diagnostic.file);
+  // Problems of the whole project, such as a failing banner, have no location
+  if (file === rootDir) {
+    return { message, pluginCode: diagnostic.code };
+  }
+  if (diagnostic.line === undefined) {
+    return { message, pluginCode: diagnostic.code, id: file };
+  }
+  return {
+    message,
+    pluginCode: diagnostic.code,
+    id: file,
+    loc: { file, line: diagnostic.line, column: (diagnostic.column ?? 1) - 1 },
+    frame: readCodeFrame(rootDir, diagnostic),
+  };
+};
+
+/**
+ * Diagnostic as a line of the tsc output format
+ */
+const describeDiagnostic = (
+  rootDir: string,
+  diagnostic: Diagnostic
+): string => {
+  const path = toProjectPath(rootDir, diagnostic.file);
+  const location = path
+    ? `${path}(${diagnostic.line ?? 1},${diagnostic.column ?? 1}): `
+    : '';
+  return `${location}${diagnostic.severity} ${diagnostic.code}: ${diagnostic.messageText}`;
+};
+
+/**
+ * Prettier automatic formatting plugin for Rollup.
+ * Runs on build start like the Vite plugin, and shows problems as Rollup
+ * warnings, failing the build with a Rollup error.
+ */
+const prettierMax = (options: BundlerPluginOptions = {}): Plugin => {
+  const { rootDir: rootDirOption, ...pluginOptions } = options;
+  const rootDir = resolve(rootDirOption ?? process.cwd());
+  const run = createPipelineRunner(
+    rootDir,
+    { ...pluginOptions, reporter: pluginOptions.reporter ?? [] },
+    createConsoleLogger('prettier-max')
+  );
+
+  return {
+    name: 'prettier-max',
+
+    buildStart: async function () {
+      const result = await run();
+      const failed = result.error !== undefined;
+      // Errors only fail the build when failOnError is enabled
+      const errors = failed
+        ? result.diagnostics.filter(
+            (diagnostic) => diagnostic.severity === 'error'
+          )
+        : [];
+      for (const diagnostic of result.diagnostics) {
+        if (!errors.includes(diagnostic)) {
+          this.warn(toRollupLog(rootDir, diagnostic));
+        }
+      }
+      if (!failed) {
+        return;
+      }
+
+      const [firstError] = errors;
+      if (!firstError) {
+        // A phase could not run
+        this.error(
+          result.error instanceof Error ? result.error : String(result.error)
+        );
+      }
+      // Rollup shows one error, located at the first one and listing all.
+      const summary =
+        result.error instanceof Error
+          ? result.error.message
+          : String(result.error);
+      this.error({
+        ...toRollupLog(rootDir, firstError),
+        message: [
+          summary,
+          ...errors.map((error) => describeDiagnostic(rootDir, error)),
+        ].join('\n'),
+      });
+    },
+  };
+};
+
+export default prettierMax;
+export type { BundlerPluginOptions } from './types.js';
@@ -0,0 +1,119 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { existsSync, realpathSync } from 'fs';
+import { isAbsolute, join, relative, resolve } from 'path';
+
+import type { FileScope, PrettierError } from './types.js';
+import { runGit, splitLines, splitPaths } from './git.js';
+
+// Deleted files have nothing left to format or check.
+const DIFF_FILTER = '--diff-filter=ACMR';
+
+/**
+ * Collect repository-relative paths selected by the scope
+ */
+const listScopedPaths = async (
+  rootDir: string,
+  scope: Exclude<FileScope, 'all'>
+): Promise<string[]> => {
+  if (scope === 'staged') {
+    return splitPaths(
+      await runGit(rootDir, [
+        'diff',
+        '--name-only',
+        '-z',
+        '--cached',
+        DIFF_FILTER,
+      ])
+    );
+  }
+
+  if (scope === 'changed') {
+    // Staged and unstaged edits against HEAD, plus files git does not know yet.
+    const [modified, untracked] = await Promise.all([
+      runGit(rootDir, ['diff', '--name-only', '-z', DIFF_FILTER, 'HEAD']),
+      runGit(rootDir, [
+        'ls-files',
+        '-z',
+        '--others',
+        '--exclude-standard',
+        '--full-name',
+      ]),
+    ]);
+    return [...splitPaths(modified), ...splitPaths(untracked)];
+  }
+
+  // Compare against the fork point, so commits that landed on the base ref
+  // after branching are not treated as ours.
+  const [mergeBase] = splitLines(
+    await runGit(rootDir, ['merge-base', scope.since, 'HEAD'])
+  );
+  if (!mergeBase) {
+    throw new Error(`Could not find a merge base with ${scope.since}`);
+  }
+  return splitPaths(
+    await runGit(rootDir, ['diff', '--name-only', '-z', DIFF_FILTER, mergeBase])
+  );
+};
+
+/**
+ * Resolve the files selected by a scope from the local git repository.
+ * Returns undefined for the `all` scope; otherwise sorted absolute paths
+ * of existing files under rootDir.
+ */
+export const resolveScopeFiles = async (
+  rootDir: string,
+  scope: FileScope
+): Promise<string[] | undefined> => {
+  if (scope === 'all') {
+    return undefined;
+  }
+
+  // git prints paths relative to the top level, not to the working directory.
+  const [topLevel] = splitLines(
+    await runGit(rootDir, ['rev-parse', '--show-toplevel'])
+  );
+  if (!topLevel) {
+    throw new Error(`${rootDir} is not inside a git repository`);
+  }
+
+  // git reports the real path, while rootDir may go through a symlink.
+  const realRootDir = realpathSync(rootDir);
+  const files = new Set<string>();
+  for (const path of await listScopedPaths(rootDir, scope)) {
+    const rel = relative(realRootDir, resolve(topLevel, path));
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+      continue;
+    }
+    const absolutePath = join(rootDir, rel);
+    if (existsSync(absolutePath)) {
+      files.add(absolutePath);
+    }
+  }
+  return Array.from(files).sort();
+};
+
+/**
+ * Describe a scope for log output
+ */
+export const describeScope = (scope: FileScope): string =>
+  typeof scope === 'string' ? scope : `since ${scope.since}`;
+
+/**
+ * Keep only errors located in scoped files.
+ * Errors without a position are not tied to a source file and are kept.
+ */
+export const filterErrorsByScope = <T extends PrettierError>(
+  rootDir: string,
+  errors: T[],
+  scopeFiles: readonly string[]
+): T[] => {
+  const scoped = new Set(scopeFiles);
+  return errors.filter(
+    (error) =>
+      error.line === undefined || scoped.has(resolve(rootDir, error.file))
+  );
+};
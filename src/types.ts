@@ -3,6 +3,8 @@
 // Under MIT.
 // https://github.com/kekyo/prettier-max/
 
+import type { Logger } from './logger.js';
+
 // Re-export Logger interface for public API
 export type { Logger } from './logger.js';
 
@@ -16,16 +18,233 @@ export interface PrettierError {
   message: string;
 }
 
+/**
+ * How serious a diagnostic is
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Tool that produced a diagnostic
+ * - `prettier`: formatting (`PRETTIER001`-`PRETTIER003`)
+ * - `typescript`: the TypeScript compiler (`TSxxxx`)
+ * - `prettier-max`: the plugin's own rules (`PMAX000`-`PMAX003`)
+ */
+export type DiagnosticSource = 'prettier' | 'typescript' | 'prettier-max';
+
+/**
+ * Additional location attached to a diagnostic, such as a conflicting declaration
+ */
+export interface DiagnosticRelatedInformation {
+  file: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  message: string;
+}
+
+/**
+ * Text replacement in a file, positions are 1-based and the end is exclusive
+ */
+export interface DiagnosticTextEdit {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  newText: string;
+}
+
+/**
+ * Edits resolving a diagnostic
+ */
+export interface DiagnosticFix {
+  description: string;
+  edits: DiagnosticTextEdit[];
+}
+
+/**
+ * Structured diagnostic reported by every phase.
+ * It is a `PrettierError`, so reporters written against that shape keep
+ * working; `message` still carries the code prefix where it always did.
+ */
+export interface Diagnostic extends PrettierError {
+  severity: DiagnosticSeverity;
+  /**
+   * Diagnostic code such as `TS2322`, `PMAX001` or `PRETTIER001`
+   */
+  code: string;
+  source: DiagnosticSource;
+  /**
+   * Message without the code prefix
+   */
+  messageText: string;
+  /**
+   * End position, 1-based and exclusive
+   */
+  endLine?: number;
+  endColumn?: number;
+  relatedInformation?: DiagnosticRelatedInformation[];
+  fix?: DiagnosticFix;
+}
+
+/**
+ * Phase of a build
+ * - `prettier`: formatting
+ * - `banner`: banner insertion
+ * - `typescript`: validation with one tsconfig, without the `PMAX001`-`PMAX003` findings
+ * - `rules`: `PMAX001`-`PMAX003` findings of every tsconfig
+ */
+export type BuildPhaseKind = 'prettier' | 'banner' | 'typescript' | 'rules';
+
+/**
+ * Result of one phase of a build
+ */
+export interface BuildPhaseResult {
+  kind: BuildPhaseKind;
+  /**
+   * Display name, such as `prettier` or `typescript (tsconfig.json)`
+   */
+  name: string;
+  /**
+   * tsconfig path relative to the project root, for `typescript` phases
+   * using a specific tsconfig
+   */
+  tsconfig?: string;
+  /**
+   * Milliseconds taken, undefined when the phase is not measured on its own
+   */
+  duration?: number;
+  diagnostics: Diagnostic[];
+  /**
+   * Severity of each rule, for the `rules` phase. Rules not detected are `off`.
+   */
+  rules?: Record<RuleId, RuleSeverity>;
+  /**
+   * Outcome of each file, for the `banner` phase
+   */
+  banner?: BannerSummary;
+}
+
+/**
+ * Results of a whole build, grouped by phase in the order they ran
+ */
+export interface BuildReport {
+  phases: BuildPhaseResult[];
+  /**
+   * Milliseconds taken by the whole build start
+   */
+  duration: number;
+  /**
+   * True when no phase found an error-level diagnostic
+   */
+  success: boolean;
+}
+
 /**
  * Reporter interface for outputting errors
  */
 export interface ErrorReporter {
-  report(errors: PrettierError[]): void;
+  report(errors: Diagnostic[]): void;
   clear(): void;
+  /**
+   * Receive the results of a build by phase once it finished, even when it failed
+   */
+  reportBuild?(build: BuildReport): void;
 }
 
 export type DefaultImportDetectionMode = 'none' | 'exceptType' | 'all';
 
+/**
+ * Detection rules whose severity can be configured
+ * - `PMAX001`: deprecated symbol usage
+ * - `PMAX002`: unnecessary `@prettier-max-ignore-deprecated` directive
+ * - `PMAX003`: default import or export
+ */
+export type RuleId = 'PMAX001' | 'PMAX002' | 'PMAX003';
+
+export type RuleSeverity = 'error' | 'warn' | 'off';
+
+export type RuleSeverities = Partial<Record<RuleId, RuleSeverity>>;
+
+/**
+ * Number of source lines shown around a reported line in code frames
+ */
+export interface CodeFrameOptions {
+  /**
+   * @default 2
+   */
+  linesAbove?: number;
+  /**
+   * @default 3
+   */
+  linesBelow?: number;
+}
+
+export type FormatMode = 'write' | 'check';
+
+/**
+ * Files targeted by formatting, banner insertion and diagnostics reporting
+ * - `all`: every file in the project
+ * - `staged`: files staged in git
+ * - `changed`: files modified in the working tree or staged, and untracked files
+ * - `{ since }`: files changed since the merge base with the given git ref
+ */
+export type FileScope = 'all' | 'staged' | 'changed' | { since: string };
+
+/**
+ * Comment syntax a banner is written with
+ * - `line`: `//` lines
+ * - `block`: a `/* *\/` block
+ * - `jsdoc`: a `/** *\/` block
+ * - `html`: a `<!-- -->` block
+ * - `hash`: `#` lines
+ */
+export type BannerStyle = 'line' | 'block' | 'jsdoc' | 'html' | 'hash';
+
+/**
+ * What banner insertion does with the files
+ * - `apply`: insert missing banners and replace outdated ones
+ * - `check`: report missing and outdated banners without writing
+ * - `remove`: strip the banners at the top of the files
+ */
+export type BannerMode = 'apply' | 'check' | 'remove';
+
+/**
+ * Banner outcome of a file
+ * - `inserted`, `replaced`, `removed`: the file was rewritten
+ * - `unchanged`: the file already had the banner, or had none to remove
+ * - `missing`, `stale`: check mode found no banner or an outdated one
+ * - `ambiguous`: the header is neither clearly the banner nor a foreign one,
+ *   and was left as is
+ */
+export type BannerFileStatus =
+  | 'inserted'
+  | 'replaced'
+  | 'removed'
+  | 'unchanged'
+  | 'missing'
+  | 'stale'
+  | 'ambiguous';
+
+/**
+ * Banner outcome of a build, with the number of files per status
+ */
+export interface BannerSummary {
+  mode: BannerMode;
+  total: number;
+  inserted: number;
+  replaced: number;
+  removed: number;
+  missing: number;
+  stale: number;
+  ambiguous: number;
+  /**
+   * Status of each target file, with paths relative to the project root
+   */
+  files: { file: string; status: BannerFileStatus }[];
+}
+
 /**
  * Plugin options
  */
@@ -48,12 +267,83 @@ export interface PrettierMaxOptions {
    */
   formatOnBuild?: boolean;
 
+  /**
+   * Format saved files incrementally while the Vite dev server is running
+   * @default false
+   */
+  formatOnSave?: boolean;
+
+  /**
+   * Keep a TypeScript watch program running in the dev server and report
+   * TypeScript errors and PMAX findings whenever a file changes
+   * @default false
+   */
+  watchTypeScript?: boolean;
+
+  /**
+   * Show diagnostics in a panel of the pages served by the Vite dev server,
+   * with code frames. The panel disappears once every problem is fixed.
+   * @default false
+   */
+  overlay?: boolean;
+
+  /**
+   * Formatting mode.
+   * `write` rewrites unformatted files, `check` only reports them as errors.
+   * @default 'write'
+   */
+  mode?: FormatMode;
+
+  /**
+   * Number of worker threads used to format the project on build start.
+   * `1` formats in the main thread.
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Number of tsconfig files validated in parallel worker threads when
+   * several are checked. `1` validates them one by one in the main thread.
+   * @default 1
+   */
+  typescriptConcurrency?: number;
+
+  /**
+   * Persist content hashes under `node_modules/.cache/prettier-max`
+   * so unchanged files are skipped by formatting and banner insertion.
+   * @default true
+   */
+  cache?: boolean;
+
+  /**
+   * Limit formatting, banner insertion and reported TypeScript diagnostics to
+   * files selected from git. Type checking itself still covers the whole program.
+   * @default 'all'
+   */
+  scope?: FileScope;
+
   /**
    * File extensions eligible for banner insertion (leading dot required)
    * @default ['.ts', '.tsx', '.js', '.jsx']
    */
   bannerExtensions?: string[];
 
+  /**
+   * What banner insertion does: `apply` writes banners, `check` reports
+   * missing and outdated banners without writing (`PMAX004`, `PMAX005`),
+   * and `remove` strips them.
+   * @default 'apply'
+   */
+  banner?: BannerMode;
+
+  /**
+   * Comment style of the banner per file extension (leading dot required),
+   * merged over the defaults: `line` for JavaScript and TypeScript, `block`
+   * for CSS, SCSS and Less, `html` for HTML, Vue, Svelte and Markdown,
+   * and `hash` for YAML and shell scripts. Other extensions use `line`.
+   */
+  bannerStyles?: Record<string, BannerStyle>;
+
   /**
    * Run TypeScript validation after formatting.
    * Provide a string to point to a specific tsconfig.json (resolved from the project root).
@@ -75,6 +365,20 @@ export interface PrettierMaxOptions {
    */
   detectDefaultImport?: DefaultImportDetectionMode;
 
+  /**
+   * Severity of each detection rule. Only `error` findings fail the build,
+   * `warn` findings are reported without failing it and `off` drops them.
+   * @default every rule is 'error'
+   */
+  rules?: RuleSeverities;
+
+  /**
+   * Print the source around each diagnostic in the console, with a caret
+   * under the column. `true` shows 2 lines above and 3 below.
+   * @default false
+   */
+  codeFrame?: boolean | CodeFrameOptions;
+
   //////////////////////////////////////////////////////////////////////////////
 
   /**
@@ -84,10 +388,73 @@ export interface PrettierMaxOptions {
   configPath?: string;
 
   /**
-   * Custom error reporter
+   * Custom error reporter, or several reporters all receiving the same results
    * @default Internal default reporter
    */
-  reporter?: ErrorReporter;
+  reporter?: ErrorReporter | ErrorReporter[];
+}
+
+/**
+ * `runPrettierMax` options.
+ * Options only meaningful in the Vite dev server, such as `formatOnSave`, are ignored.
+ */
+export interface RunPrettierMaxOptions extends PrettierMaxOptions {
+  /**
+   * Project root, resolved from the current directory
+   */
+  rootDir: string;
+
+  /**
+   * Destination of the progress logs
+   * @default Console output prefixed with `[prettier-max]`
+   */
+  logger?: Logger;
+}
+
+/**
+ * Options of the Rollup and esbuild plugins.
+ * Problems are shown by the bundler, so reporters only run when given.
+ */
+export interface BundlerPluginOptions extends PrettierMaxOptions {
+  /**
+   * Project root, resolved from the current directory
+   * @default esbuild's `absWorkingDir`, or the current directory
+   */
+  rootDir?: string;
+}
+
+/**
+ * Result of `runPrettierMax`
+ */
+export interface PrettierMaxResult extends BuildReport {
+  /**
+   * Diagnostics of every phase, in the order the phases ran
+   */
+  diagnostics: Diagnostic[];
+  /**
+   * Absolute paths of the files rewritten by formatting
+   */
+  formattedFiles: string[];
+  /**
+   * Error the Vite plugin fails the build with, only set when `failOnError`
+   * is enabled: the banner could not be applied, errors were found, or a
+   * phase could not run
+   */
+  error?: unknown;
+}
+
+/**
+ * Internal prettier format options
+ */
+export interface PrettierFormatOptions {
+  mode?: FormatMode;
+  logger?: Logger;
+  concurrency?: number;
+  cache?: boolean;
+  /**
+   * Restrict the project run to these absolute paths
+   */
+  files?: string[];
 }
 
 /**
@@ -95,7 +462,7 @@ export interface PrettierMaxOptions {
  */
 export interface FormatResult {
   success: boolean;
-  errors: PrettierError[];
+  errors: Diagnostic[];
   formattedFiles: string[];
   duration: number;
 }
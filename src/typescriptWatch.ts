@@ -0,0 +1,211 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import type {
+  DefaultImportDetectionMode,
+  ErrorReporter,
+  Diagnostic,
+  RuleSeverities,
+} from './types.js';
+import type { Logger } from './logger.js';
+import {
+  collectCustomWarnings,
+  convertTypeScriptDiagnostics,
+  createOwnFileFilter,
+  enableSourceOfProjectReferenceRedirect,
+  loadTypeScript,
+} from './checker.js';
+import { createReporterChannels } from './reporters/channels.js';
+import { applyRuleSeverities } from './diagnostics.js';
+
+type TS = typeof import('typescript');
+
+interface TypeScriptWatchOptions {
+  rootDir: string;
+  tsconfigPaths: string[] | undefined;
+  detectDeprecated: boolean;
+  detectDefaultImport: DefaultImportDetectionMode;
+  rules: RuleSeverities;
+  logger: Logger;
+  reporter: ErrorReporter;
+}
+
+/**
+ * Long-lived TypeScript watch programs hosted by the dev server
+ */
+export interface TypeScriptWatcher {
+  /**
+   * Stop watching
+   */
+  readonly close: () => void;
+}
+
+/**
+ * Start a watch program for one tsconfig, reporting its diagnostics
+ * every time the program is rebuilt.
+ */
+const watchProject = (
+  ts: TS,
+  configFile: string,
+  options: TypeScriptWatchOptions,
+  reporter: ErrorReporter
+): { close: () => void } => {
+  const { rootDir, detectDeprecated, detectDefaultImport, rules, logger } =
+    options;
+  // file -> PMAX findings, kept for files the builder did not revisit
+  const customWarnings = new Map<string, Diagnostic[]>();
+
+  const host = ts.createWatchCompilerHost(
+    configFile,
+    { noEmit: true },
+    ts.sys,
+    ts.createSemanticDiagnosticsBuilderProgram,
+    // Only config level problems end up here, program diagnostics are
+    // collected in afterProgramCreate.
+    (diagnostic) =>
+      logger.warn(
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, ts.sys.newLine)
+      ),
+    (diagnostic) =>
+      logger.debug(
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, ts.sys.newLine)
+      )
+  );
+
+  enableSourceOfProjectReferenceRedirect(host);
+
+  host.afterProgramCreate = (builder) => {
+    const program = builder.getProgram();
+    const isOwnFile = createOwnFileFilter(program);
+
+    let affectedFiles: Set<string> | undefined = new Set();
+    while (true) {
+      const next = builder.getSemanticDiagnosticsOfNextAffectedFile();
+      if (!next) {
+        break;
+      }
+      if (next.affected === program) {
+        affectedFiles = undefined;
+        break;
+      }
+      affectedFiles.add(
+        (next.affected as import('typescript').SourceFile).fileName
+      );
+    }
+
+    const diagnostics = ts.sortAndDeduplicateDiagnostics([
+      ...builder.getConfigFileParsingDiagnostics(),
+      ...builder.getOptionsDiagnostics(),
+      ...builder.getSyntacticDiagnostics(),
+      ...builder.getGlobalDiagnostics(),
+      ...builder.getSemanticDiagnostics(),
+    ]);
+
+    const warnings = collectCustomWarnings(
+      ts,
+      program,
+      logger,
+      detectDeprecated,
+      detectDefaultImport,
+      (sourceFile) =>
+        isOwnFile(sourceFile) &&
+        (!affectedFiles || affectedFiles.has(sourceFile.fileName))
+    );
+    if (affectedFiles) {
+      for (const fileName of affectedFiles) {
+        customWarnings.delete(fileName);
+      }
+    } else {
+      customWarnings.clear();
+    }
+    for (const warning of warnings) {
+      const list = customWarnings.get(warning.file);
+      if (list) {
+        list.push(warning);
+      } else {
+        customWarnings.set(warning.file, [warning]);
+      }
+    }
+
+    // Walk in program order, which also drops files removed from the program.
+    const errors = convertTypeScriptDiagnostics(ts, diagnostics, rootDir);
+    for (const sourceFile of program.getSourceFiles()) {
+      errors.push(...(customWarnings.get(sourceFile.fileName) ?? []));
+    }
+    reporter.report(applyRuleSeverities(errors, rules));
+  };
+
+  const watch = ts.createWatchProgram(host);
+  return { close: () => watch.close() };
+};
+
+/**
+ * Watch every resolved tsconfig and push TypeScript errors and PMAX
+ * findings to the reporter, clearing them once they are fixed.
+ */
+export const createTypeScriptWatcher = (
+  options: TypeScriptWatchOptions
+): TypeScriptWatcher => {
+  const { rootDir, tsconfigPaths, logger } = options;
+  const channel = createReporterChannels(options.reporter);
+  const projects: { close: () => void }[] = [];
+  let closed = false;
+
+  const start = async (): Promise<void> => {
+    const ts = await loadTypeScript();
+    if (!ts || closed) {
+      return;
+    }
+
+    const defaultConfigFile = ts.findConfigFile(
+      rootDir,
+      ts.sys.fileExists,
+      'tsconfig.json'
+    );
+    const configFiles = tsconfigPaths?.length
+      ? tsconfigPaths
+      : defaultConfigFile
+        ? [defaultConfigFile]
+        : [];
+    if (configFiles.length === 0) {
+      logger.warn(
+        '\x1b[33m⚠\x1b[0m Could not find a valid tsconfig.json, TypeScript watch is disabled'
+      );
+      return;
+    }
+
+    for (const configFile of configFiles) {
+      if (closed) {
+        return;
+      }
+      try {
+        projects.push(
+          watchProject(ts, configFile, options, channel(configFile))
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to watch ${configFile}: ${message}`);
+      }
+    }
+  };
+
+  // Let the dev server finish starting before the first full type check.
+  const timer = setTimeout(() => {
+    start().catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to start TypeScript watch: ${message}`);
+    });
+  }, 0);
+
+  const close = (): void => {
+    closed = true;
+    clearTimeout(timer);
+    for (const project of projects.splice(0)) {
+      project.close();
+    }
+  };
+
+  return { close };
+};
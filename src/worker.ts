@@ -0,0 +1,82 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { parentPort, workerData } from 'worker_threads';
+
+import { formatFilesWithApi, loadPrettierApi } from './prettierApi.js';
+import { runTypeScriptCheck } from './checker.js';
+import { createBufferedLogger } from './logger.js';
+import type {
+  FormatWorkerData,
+  FormatWorkerRequest,
+  FormatWorkerResponse,
+  TypeScriptWorkerData,
+  TypeScriptWorkerRequest,
+  TypeScriptWorkerResponse,
+  WorkerData,
+} from './workerPool.js';
+
+// Worker thread entry point, bundled separately as dist/worker.{mjs,cjs}
+
+const post = (
+  response: FormatWorkerResponse | TypeScriptWorkerResponse
+): void => {
+  parentPort?.postMessage(response);
+};
+
+const postError = (error: unknown): void => {
+  post({
+    type: 'error',
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+const serveFormat = (data: FormatWorkerData): void => {
+  const prettierPromise = loadPrettierApi(data.pkgDir, data.pkg);
+
+  parentPort?.on('message', async (request: FormatWorkerRequest) => {
+    try {
+      const prettier = await prettierPromise;
+      if (!prettier) {
+        throw new Error(`Prettier API is not available in ${data.pkgDir}`);
+      }
+      const result = await formatFilesWithApi(prettier, {
+        rootDir: data.rootDir,
+        files: request.files,
+        configPath: data.configPath,
+        mode: data.mode,
+      });
+      post({ type: 'result', result });
+    } catch (error) {
+      postError(error);
+    }
+  });
+};
+
+const serveTypeScript = (data: TypeScriptWorkerData): void => {
+  parentPort?.on('message', async (request: TypeScriptWorkerRequest) => {
+    try {
+      const buffered = createBufferedLogger();
+      const result = await runTypeScriptCheck(
+        data.rootDir,
+        data.detectDeprecated,
+        buffered.logger,
+        request.configPath,
+        data.detectDefaultImport,
+        data.cache
+      );
+      post({ type: 'result', result, logs: buffered.entries });
+    } catch (error) {
+      postError(error);
+    }
+  });
+};
+
+const data = workerData as WorkerData;
+if (data.kind === 'typescript') {
+  serveTypeScript(data);
+} else {
+  serveFormat(data);
+}
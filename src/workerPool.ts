@@ -0,0 +1,403 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { Worker } from 'worker_threads';
+import { existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+import type {
+  DefaultImportDetectionMode,
+  FormatMode,
+  FormatResult,
+  Diagnostic,
+} from './types.js';
+import { createBufferedLogger, type LogEntry, type Logger } from './logger.js';
+import { runTypeScriptCheck } from './checker.js';
+import {
+  formatFilesWithApi,
+  type PrettierApi,
+  type PrettierPackageJson,
+} from './prettierApi.js';
+
+// Files per batch handed to a worker; small enough to balance uneven files,
+// large enough to amortise the message round trip.
+const WORKER_BATCH_SIZE = 100;
+const WORKER_SCRIPT_NAMES = ['worker.mjs', 'worker.cjs'] as const;
+
+/**
+ * Data passed to a formatting worker on startup
+ */
+export interface FormatWorkerData {
+  kind: 'format';
+  rootDir: string;
+  configPath: string | undefined;
+  mode: FormatMode;
+  pkgDir: string;
+  pkg: PrettierPackageJson;
+}
+
+/**
+ * Batch request sent to a formatting worker
+ */
+export interface FormatWorkerRequest {
+  files: string[];
+}
+
+/**
+ * Batch response returned from a formatting worker
+ */
+export type FormatWorkerResponse =
+  { type: 'result'; result: FormatResult } | WorkerErrorResponse;
+
+/**
+ * Data passed to a TypeScript validation worker on startup
+ */
+export interface TypeScriptWorkerData {
+  kind: 'typescript';
+  rootDir: string;
+  detectDeprecated: boolean;
+  detectDefaultImport: DefaultImportDetectionMode;
+  cache: boolean;
+}
+
+/**
+ * Validation request sent to a TypeScript worker, one per tsconfig
+ */
+export interface TypeScriptWorkerRequest {
+  configPath: string | undefined;
+}
+
+/**
+ * Validation response returned from a TypeScript worker
+ */
+export type TypeScriptWorkerResponse =
+  | { type: 'result'; result: FormatResult; logs: LogEntry[] }
+  | WorkerErrorResponse;
+
+/**
+ * Response sent by any worker when a request failed
+ */
+export interface WorkerErrorResponse {
+  type: 'error';
+  message: string;
+}
+
+/**
+ * Data passed to a worker on startup, selecting what it runs
+ */
+export type WorkerData = FormatWorkerData | TypeScriptWorkerData;
+
+/**
+ * Result of validating one tsconfig, with the log output it produced
+ */
+export interface TypeScriptRunOutcome {
+  result: FormatResult;
+  logs: LogEntry[];
+}
+
+interface FormatInWorkersOptions {
+  prettier: PrettierApi;
+  pkgDir: string;
+  pkg: PrettierPackageJson;
+  rootDir: string;
+  files: string[];
+  configPath: string | undefined;
+  mode: FormatMode;
+  concurrency: number;
+  logger?: Logger;
+  workerScript?: string;
+}
+
+interface TypeScriptInWorkersOptions {
+  rootDir: string;
+  tsconfigPaths: (string | undefined)[];
+  detectDeprecated: boolean;
+  detectDefaultImport: DefaultImportDetectionMode;
+  cache: boolean;
+  concurrency: number;
+  logger?: Logger;
+  workerScript?: string;
+  /**
+   * Called once per tsconfig, in the order of tsconfigPaths
+   */
+  onOutcome?: (index: number, outcome: TypeScriptRunOutcome) => void;
+}
+
+const getThisModuleDir = (): string => {
+  try {
+    return dirname(fileURLToPath(import.meta.url));
+  } catch {
+    // Fallback for environments where import.meta.url is not available
+    return typeof __dirname !== 'undefined' ? __dirname : process.cwd();
+  }
+};
+
+/**
+ * Locate the bundled worker entry next to this module.
+ * Returns undefined when running from sources, where no worker is built.
+ */
+export const resolveWorkerScript = (): string | undefined => {
+  const baseDir = getThisModuleDir();
+  for (const scriptName of WORKER_SCRIPT_NAMES) {
+    const candidate = join(baseDir, scriptName);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+const splitIntoBatches = (files: string[], size: number): string[][] => {
+  const batches: string[][] = [];
+  for (let index = 0; index < files.length; index += size) {
+    batches.push(files.slice(index, index + size));
+  }
+  return batches;
+};
+
+/**
+ * Send one request to a worker and wait for its answer
+ */
+const requestWorker = <TResponse extends { type: 'result' }>(
+  worker: Worker,
+  request: FormatWorkerRequest | TypeScriptWorkerRequest
+): Promise<TResponse> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+    };
+    const onMessage = (response: TResponse | WorkerErrorResponse) => {
+      cleanup();
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+      } else {
+        resolve(response);
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onExit = (code: number) => {
+      cleanup();
+      reject(new Error(`Worker exited unexpectedly with code ${code}`));
+    };
+
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('exit', onExit);
+    worker.postMessage(request);
+  });
+
+/**
+ * Merge batch results in batch order, so output never depends on which
+ * worker finished first.
+ */
+const mergeResults = (results: FormatResult[]): FormatResult => {
+  const errors: Diagnostic[] = [];
+  const formattedFiles: string[] = [];
+  let duration = 0;
+  for (const result of results) {
+    errors.push(...result.errors);
+    formattedFiles.push(...result.formattedFiles);
+    duration += result.duration;
+  }
+  return {
+    success: errors.length === 0,
+    errors,
+    formattedFiles,
+    duration,
+  };
+};
+
+/**
+ * Format files with a pool of worker threads, each pulling batches until
+ * none are left. Falls back to in-process formatting for batches whose
+ * worker failed, or entirely when no worker script is available.
+ */
+export const formatFilesInWorkers = async (
+  options: FormatInWorkersOptions
+): Promise<FormatResult> => {
+  const {
+    prettier,
+    pkgDir,
+    pkg,
+    rootDir,
+    files,
+    configPath,
+    mode,
+    concurrency,
+    logger,
+    workerScript = resolveWorkerScript(),
+  } = options;
+
+  const batches = splitIntoBatches(files, WORKER_BATCH_SIZE);
+  const results: FormatResult[] = new Array(batches.length);
+  let nextBatch = 0;
+
+  const formatInProcess = (batch: string[]) =>
+    formatFilesWithApi(prettier, { rootDir, files: batch, configPath, mode });
+
+  const workerCount = Math.min(Math.floor(concurrency), batches.length);
+  if (!workerScript || workerCount <= 1) {
+    if (!workerScript && workerCount > 1) {
+      logger?.debug('Worker script is not available, formatting in-process');
+    }
+    for (const [index, batch] of batches.entries()) {
+      results[index] = await formatInProcess(batch);
+    }
+    return mergeResults(results);
+  }
+
+  const workerData: FormatWorkerData = {
+    kind: 'format',
+    rootDir,
+    configPath,
+    mode,
+    pkgDir,
+    pkg,
+  };
+
+  const runWorker = async (): Promise<void> => {
+    let worker: Worker | undefined = new Worker(workerScript, { workerData });
+    try {
+      while (nextBatch < batches.length) {
+        const index = nextBatch++;
+        const batch = batches[index]!;
+        if (!worker) {
+          results[index] = await formatInProcess(batch);
+          continue;
+        }
+        try {
+          const response = await requestWorker<
+            Extract<FormatWorkerResponse, { type: 'result' }>
+          >(worker, { files: batch });
+          results[index] = response.result;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          logger?.debug(
+            `Prettier worker failed, continuing in-process: ${message}`
+          );
+          await worker.terminate();
+          worker = undefined;
+          results[index] = await formatInProcess(batch);
+        }
+      }
+    } finally {
+      await worker?.terminate();
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+  return mergeResults(results);
+};
+
+/**
+ * Validate several tsconfigs with a pool of worker threads, each taking
+ * the next tsconfig until none are left. Log output of each run is
+ * buffered and handed over with its result, so runs finishing in any
+ * order never interleave. Falls back to in-process validation like
+ * formatFilesInWorkers.
+ */
+export const checkTypeScriptInWorkers = async (
+  options: TypeScriptInWorkersOptions
+): Promise<TypeScriptRunOutcome[]> => {
+  const {
+    rootDir,
+    tsconfigPaths,
+    detectDeprecated,
+    detectDefaultImport,
+    cache,
+    concurrency,
+    logger,
+    workerScript = resolveWorkerScript(),
+    onOutcome,
+  } = options;
+
+  const outcomes: TypeScriptRunOutcome[] = new Array(tsconfigPaths.length);
+  let nextTarget = 0;
+  let nextOutcome = 0;
+
+  // Hand outcomes over in tsconfig order as soon as all earlier ones are done.
+  const complete = (index: number, outcome: TypeScriptRunOutcome): void => {
+    outcomes[index] = outcome;
+    while (nextOutcome < outcomes.length && outcomes[nextOutcome]) {
+      onOutcome?.(nextOutcome, outcomes[nextOutcome]!);
+      nextOutcome++;
+    }
+  };
+
+  const checkInProcess = async (
+    configPath: string | undefined
+  ): Promise<TypeScriptRunOutcome> => {
+    const buffered = createBufferedLogger();
+    const result = await runTypeScriptCheck(
+      rootDir,
+      detectDeprecated,
+      buffered.logger,
+      configPath,
+      detectDefaultImport,
+      cache
+    );
+    return { result, logs: buffered.entries };
+  };
+
+  const workerCount = Math.min(Math.floor(concurrency), tsconfigPaths.length);
+  if (!workerScript || workerCount <= 1) {
+    if (!workerScript && workerCount > 1) {
+      logger?.debug('Worker script is not available, validating in-process');
+    }
+    for (const [index, configPath] of tsconfigPaths.entries()) {
+      complete(index, await checkInProcess(configPath));
+    }
+    return outcomes;
+  }
+
+  const workerData: TypeScriptWorkerData = {
+    kind: 'typescript',
+    rootDir,
+    detectDeprecated,
+    detectDefaultImport,
+    cache,
+  };
+
+  const runWorker = async (): Promise<void> => {
+    let worker: Worker | undefined = new Worker(workerScript, { workerData });
+    try {
+      while (nextTarget < tsconfigPaths.length) {
+        const index = nextTarget++;
+        const configPath = tsconfigPaths[index];
+        if (!worker) {
+          complete(index, await checkInProcess(configPath));
+          continue;
+        }
+        try {
+          const response = await requestWorker<
+            Extract<TypeScriptWorkerResponse, { type: 'result' }>
+          >(worker, { configPath });
+          complete(index, { result: response.result, logs: response.logs });
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          logger?.debug(
+            `TypeScript worker failed, continuing in-process: ${message}`
+          );
+          await worker.terminate();
+          worker = undefined;
+          complete(index, await checkInProcess(configPath));
+        }
+      }
+    } finally {
+      await worker?.terminate();
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+  return outcomes;
+};
@@ -3,7 +3,8 @@
 // Under MIT.
 // https://github.com/kekyo/prettier-max/
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { execFileSync } from 'child_process';
 import { join } from 'path';
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { createTestDirectory } from './test-utils';
@@ -16,6 +17,17 @@ const makeLogger = () => ({
   error: () => {},
 });
 
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync(
+    'git',
+    ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+    {
+      cwd,
+      stdio: 'pipe',
+      env: { ...process.env, GIT_AUTHOR_DATE: '2019-05-01T00:00:00Z' },
+    }
+  ).toString();
+
 const ensureDir = async (target: string) => {
   await mkdir(target, { recursive: true });
 };
@@ -177,4 +189,647 @@ describe('applyBanner', () => {
     expect(nmContent.startsWith('export const inside = true;')).toBe(true);
     expect(normalContent.startsWith('// Skip directories\n\n')).toBe(true);
   });
+
+  it('renders a plain text banner in the comment style of each file', async () => {
+    const rootDir = await createTestDirectory('banner', 'styles');
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Copyright (c) Example\n\nUnder MIT.\n'
+    );
+    await writeFile(join(rootDir, 'index.ts'), 'export const value = 1;\n');
+    await writeFile(join(rootDir, 'site.css'), 'body {\n  margin: 0;\n}\n');
+    await writeFile(join(rootDir, 'App.vue'), '<template></template>\n');
+    await writeFile(join(rootDir, 'config.yml'), 'name: value\n');
+    await writeFile(join(rootDir, 'run.sh'), '#!/bin/sh\necho ok\n');
+    await writeFile(
+      join(rootDir, 'README.md'),
+      '---\ntitle: Readme\n---\n# Readme\n'
+    );
+    const extensions = ['.ts', '.css', '.vue', '.yml', '.sh', '.md'];
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      extensions,
+      cache: false,
+    });
+
+    expect(summary?.inserted).toBe(6);
+    expect(await readFile(join(rootDir, 'index.ts'), 'utf8')).toBe(
+      '// Copyright (c) Example\n//\n// Under MIT.\n\nexport const value = 1;\n'
+    );
+    expect(await readFile(join(rootDir, 'site.css'), 'utf8')).toBe(
+      '/*\n * Copyright (c) Example\n *\n * Under MIT.\n */\n\nbody {\n  margin: 0;\n}\n'
+    );
+    expect(await readFile(join(rootDir, 'App.vue'), 'utf8')).toBe(
+      '<!--\n  Copyright (c) Example\n\n  Under MIT.\n-->\n\n<template></template>\n'
+    );
+    expect(await readFile(join(rootDir, 'config.yml'), 'utf8')).toBe(
+      '# Copyright (c) Example\n#\n# Under MIT.\n\nname: value\n'
+    );
+    expect(await readFile(join(rootDir, 'run.sh'), 'utf8')).toBe(
+      '#!/bin/sh\n# Copyright (c) Example\n#\n# Under MIT.\n\necho ok\n'
+    );
+    expect(await readFile(join(rootDir, 'README.md'), 'utf8')).toBe(
+      '---\ntitle: Readme\n---\n<!--\n  Copyright (c) Example\n\n  Under MIT.\n-->\n\n# Readme\n'
+    );
+
+    // Banners of every style are recognized as already present
+    const again = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      extensions,
+      cache: false,
+    });
+    expect(again).toMatchObject({ total: 6, inserted: 0, replaced: 0 });
+    expect(again?.files.every((file) => file.status === 'unchanged')).toBe(
+      true
+    );
+  });
+
+  it('replaces block banners and converts // banners to other styles', async () => {
+    const rootDir = await createTestDirectory('banner', 'block-replace');
+    await writeFile(join(rootDir, '.prettierbanner'), '// New banner\n');
+    const scriptPath = join(rootDir, 'index.ts');
+    await writeFile(
+      scriptPath,
+      '/**\n * Old banner\n *\n * New banner\n */\n\nexport const value = 1;\n'
+    );
+    const stylePath = join(rootDir, 'site.scss');
+    await writeFile(stylePath, '/* Old banner */\n\n$color: red;\n');
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      extensions: ['.ts', '.scss'],
+      styles: { '.ts': 'jsdoc' },
+      cache: false,
+    });
+
+    expect(summary?.replaced).toBe(2);
+    expect(await readFile(scriptPath, 'utf8')).toBe(
+      '/**\n * New banner\n */\n\nexport const value = 1;\n'
+    );
+    expect(await readFile(stylePath, 'utf8')).toBe(
+      '/*\n * New banner\n */\n\n$color: red;\n'
+    );
+  });
+
+  it('rejects banners a comment style cannot hold', async () => {
+    const rootDir = await createTestDirectory('banner', 'unclosable');
+    await writeFile(join(rootDir, '.prettierbanner'), 'See */ here\n');
+    const sourcePath = join(rootDir, 'site.css');
+    await writeFile(sourcePath, 'body {\n}\n');
+
+    await expect(
+      applyBanner({
+        rootDir,
+        logger: makeLogger(),
+        extensions: ['.css'],
+        cache: false,
+      })
+    ).rejects.toThrow(/cannot be written as a block comment/);
+    expect(await readFile(sourcePath, 'utf8')).toBe('body {\n}\n');
+  });
+
+  it('expands placeholders per file', async () => {
+    const rootDir = await createTestDirectory('banner', 'placeholders');
+    const year = new Date().getFullYear();
+    await writeFile(
+      join(rootDir, 'package.json'),
+      JSON.stringify({
+        name: 'foobar',
+        license: 'MIT',
+        author: { name: 'Foo Bar' },
+      })
+    );
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      '// {{package.name}} - {{relativePath}}\n// Copyright (c) 2019-{{year}} {{package.author}}\n// Under {{ package.license }}.\n'
+    );
+    await ensureDir(join(rootDir, 'src'));
+    const newPath = join(rootDir, 'src', 'new.ts');
+    await writeFile(newPath, 'export const value = 1;\n');
+    // Written in an earlier year
+    const stampedPath = join(rootDir, 'src', 'stamped.ts');
+    const stamped =
+      '// foobar - src/stamped.ts\n// Copyright (c) 2019-2020 Foo Bar\n// Under MIT.\n\nexport const value = 2;\n';
+    await writeFile(stampedPath, stamped);
+    // Banner of another file
+    const movedPath = join(rootDir, 'moved.ts');
+    await writeFile(movedPath, stamped.replace('2020', `${year}`));
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+
+    expect(summary?.files).toEqual([
+      { file: 'moved.ts', status: 'replaced' },
+      { file: 'src/new.ts', status: 'inserted' },
+      { file: 'src/stamped.ts', status: 'unchanged' },
+    ]);
+    expect(await readFile(newPath, 'utf8')).toBe(
+      `// foobar - src/new.ts\n// Copyright (c) 2019-${year} Foo Bar\n// Under MIT.\n\nexport const value = 1;\n`
+    );
+    // Only a change of the year does not rewrite the banner
+    expect(await readFile(stampedPath, 'utf8')).toBe(stamped);
+    expect(await readFile(movedPath, 'utf8')).toBe(
+      `// foobar - moved.ts\n// Copyright (c) 2019-${year} Foo Bar\n// Under MIT.\n\nexport const value = 2;\n`
+    );
+  });
+
+  it('expands the year and author files were first committed by', async () => {
+    const rootDir = await createTestDirectory('banner', 'first-commit');
+    const year = new Date().getFullYear();
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Copyright (c) {{firstCommitYear}} {{gitAuthor}}\n'
+    );
+    const committedPath = join(rootDir, 'committed.ts');
+    await writeFile(committedPath, 'export const a = 1;\n');
+    git(rootDir, 'init', '-q', '-b', 'main');
+    git(rootDir, 'add', '-A');
+    git(rootDir, 'commit', '-q', '-m', 'base');
+    git(rootDir, 'config', 'user.name', 'New Comer');
+    const newPath = join(rootDir, 'new.ts');
+    await writeFile(newPath, 'export const b = 2;\n');
+
+    await applyBanner({ rootDir, logger: makeLogger(), cache: false });
+
+    expect(await readFile(committedPath, 'utf8')).toBe(
+      '// Copyright (c) 2019 test\n\nexport const a = 1;\n'
+    );
+    expect(await readFile(newPath, 'utf8')).toBe(
+      `// Copyright (c) ${year} New Comer\n\nexport const b = 2;\n`
+    );
+  });
+
+  it('checks git placeholders again after a commit', async () => {
+    const rootDir = await createTestDirectory('banner', 'first-commit-cache');
+    const year = new Date().getFullYear();
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Copyright (c) {{firstCommitYear}} {{gitAuthor}}\n'
+    );
+    git(rootDir, 'init', '-q', '-b', 'main');
+    git(rootDir, 'config', 'user.name', 'New Comer');
+    const newPath = join(rootDir, 'new.ts');
+    await writeFile(newPath, 'export const a = 1;\n');
+    const check = () =>
+      applyBanner({ rootDir, logger: makeLogger(), mode: 'check' });
+
+    await applyBanner({ rootDir, logger: makeLogger() });
+    expect(await readFile(newPath, 'utf8')).toBe(
+      `// Copyright (c) ${year} New Comer\n\nexport const a = 1;\n`
+    );
+    expect((await check())?.diagnostics).toEqual([]);
+
+    // Committed by someone else in another year
+    git(rootDir, 'add', '-A');
+    git(rootDir, 'commit', '-q', '-m', 'base');
+
+    expect((await check())?.diagnostics).toEqual([
+      expect.objectContaining({ file: newPath, code: 'PMAX004' }),
+    ]);
+  });
+
+  it('accepts any git values in shallow clones', async () => {
+    const baseDir = await createTestDirectory('banner', 'first-commit-shallow');
+    const originDir = join(baseDir, 'origin');
+    await ensureDir(originDir);
+    await writeFile(
+      join(originDir, '.prettierbanner'),
+      'Copyright (c) {{firstCommitYear}} {{gitAuthor}}\n'
+    );
+    const content = '// Copyright (c) 2019 test\n\nexport const a = 1;\n';
+    await writeFile(join(originDir, 'old.ts'), content);
+    git(originDir, 'init', '-q', '-b', 'main');
+    git(originDir, 'add', '-A');
+    git(originDir, 'commit', '-q', '-m', 'base');
+    await writeFile(
+      join(originDir, 'later.ts'),
+      '// Copyright (c) 2019 Later Author\n\nexport const b = 2;\n'
+    );
+    git(originDir, 'add', '-A');
+    git(
+      originDir,
+      '-c',
+      'user.name=Later Author',
+      'commit',
+      '-q',
+      '-m',
+      'next'
+    );
+    // The boundary commit of the clone seems to add every file
+    const cloneDir = join(baseDir, 'clone');
+    git(
+      baseDir,
+      'clone',
+      '-q',
+      '--depth',
+      '1',
+      `file://${originDir}`,
+      cloneDir
+    );
+    const logger = { ...makeLogger(), warn: vi.fn() };
+
+    const result = await applyBanner({
+      rootDir: cloneDir,
+      logger,
+      mode: 'check',
+      cache: false,
+    });
+
+    expect(result?.diagnostics).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('The git history is shallow')
+    );
+    expect(await readFile(join(cloneDir, 'old.ts'), 'utf8')).toBe(content);
+  });
+
+  it('rejects unknown placeholders', async () => {
+    const rootDir = await createTestDirectory('banner', 'unknown-placeholder');
+    await writeFile(join(rootDir, 'package.json'), '{}');
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      '// {{package.license}} {{author}}\n'
+    );
+    await writeFile(join(rootDir, 'index.ts'), 'export const a = 1;\n');
+
+    await expect(
+      applyBanner({ rootDir, logger: makeLogger(), cache: false })
+    ).rejects.toThrow(
+      '{{package.license}} in .prettierbanner is not found in package.json.'
+    );
+
+    await writeFile(join(rootDir, '.prettierbanner'), '// {{author}}\n');
+    await expect(
+      applyBanner({ rootDir, logger: makeLogger(), cache: false })
+    ).rejects.toThrow('Unknown placeholder {{author}} in .prettierbanner.');
+  });
+
+  it('reports missing and outdated banners in check mode', async () => {
+    const rootDir = await createTestDirectory('banner', 'check');
+    await writeFile(join(rootDir, '.prettierbanner'), '// Current banner\n');
+    const files = {
+      'current.ts': '// Current banner\n\nexport const a = 1;\n',
+      'missing.ts': '#!/usr/bin/env node\nexport const b = 2;\n',
+      'stale.ts': '// Previous banner\n\nexport const c = 3;\n',
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(rootDir, name), content);
+    }
+
+    const result = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      mode: 'check',
+      cache: false,
+    });
+
+    expect(result).toMatchObject({
+      mode: 'check',
+      total: 3,
+      inserted: 0,
+      missing: 1,
+      stale: 1,
+      files: [
+        { file: 'current.ts', status: 'unchanged' },
+        { file: 'missing.ts', status: 'missing' },
+        { file: 'stale.ts', status: 'stale' },
+      ],
+    });
+    expect(result?.diagnostics).toEqual([
+      expect.objectContaining({
+        file: join(rootDir, 'missing.ts'),
+        code: 'PMAX004',
+        severity: 'error',
+        // Below the shebang
+        line: 2,
+      }),
+      expect.objectContaining({
+        file: join(rootDir, 'stale.ts'),
+        code: 'PMAX005',
+        line: 1,
+      }),
+    ]);
+    // Nothing is written
+    for (const [name, content] of Object.entries(files)) {
+      expect(await readFile(join(rootDir, name), 'utf8')).toBe(content);
+    }
+  });
+
+  it('removes recognized banners in remove mode', async () => {
+    const rootDir = await createTestDirectory('banner', 'remove');
+    const bannered = join(rootDir, 'bannered.ts');
+    await writeFile(
+      bannered,
+      '#!/usr/bin/env node\n// Old license\n// Second line\n\nexport const a = 1;\n'
+    );
+    const styled = join(rootDir, 'site.css');
+    await writeFile(styled, '/*\n * Old license\n */\n\nbody {\n}\n');
+    const plain = join(rootDir, 'plain.ts');
+    await writeFile(plain, 'export const b = 2;\n');
+    const foreign = {
+      'notice.ts':
+        '// Copyright (c) 2015 Facebook, Inc.\n// SPDX-License-Identifier: MIT\n\nexport const c = 3;\n',
+      'pragma.ts': '// @jsx-runtime classic\n\nexport const d = 4;\n',
+    };
+    for (const [name, content] of Object.entries(foreign)) {
+      await writeFile(join(rootDir, name), content);
+    }
+    const remove = (logger = makeLogger()) =>
+      applyBanner({
+        rootDir,
+        logger,
+        extensions: ['.ts', '.css'],
+        mode: 'remove',
+        cache: false,
+      });
+
+    // Without any banner to compare with, headers are silently left as is
+    const logger = { ...makeLogger(), debug: vi.fn(), warn: vi.fn() };
+    const unknown = await remove(logger);
+    expect(unknown).toMatchObject({ removed: 0, ambiguous: 0 });
+    expect(unknown?.diagnostics).toEqual([]);
+    expect(logger.debug).toHaveBeenCalledWith(
+      'Left the header of 4 files as is, with no .prettierbanner or previous version of one to compare with'
+    );
+    expect(logger.warn).not.toHaveBeenCalled();
+    expect(await readFile(styled, 'utf8')).toBe(
+      '/*\n * Old license\n */\n\nbody {\n}\n'
+    );
+
+    // Works with the .prettierbanner deleted from the git history
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Old license\nSecond line\n'
+    );
+    git(rootDir, 'init', '-q', '-b', 'main');
+    git(rootDir, 'add', '-A');
+    git(rootDir, 'commit', '-q', '-m', 'base');
+    git(rootDir, 'rm', '-q', '.prettierbanner');
+    git(rootDir, 'commit', '-q', '-m', 'drop banner');
+
+    const result = await remove();
+
+    expect(result?.removed).toBe(2);
+    expect(result?.files).toEqual([
+      { file: 'bannered.ts', status: 'removed' },
+      { file: 'notice.ts', status: 'unchanged' },
+      { file: 'plain.ts', status: 'unchanged' },
+      { file: 'pragma.ts', status: 'unchanged' },
+      { file: 'site.css', status: 'removed' },
+    ]);
+    expect(await readFile(bannered, 'utf8')).toBe(
+      '#!/usr/bin/env node\nexport const a = 1;\n'
+    );
+    expect(await readFile(styled, 'utf8')).toBe('body {\n}\n');
+    expect(await readFile(plain, 'utf8')).toBe('export const b = 2;\n');
+    for (const [name, content] of Object.entries(foreign)) {
+      expect(await readFile(join(rootDir, name), 'utf8')).toBe(content);
+    }
+  });
+
+  it('uses the nearest banner file of each directory', async () => {
+    const rootDir = await createTestDirectory('banner', 'cascade');
+    await writeFile(join(rootDir, '.prettierbanner'), '// First party\n');
+    await ensureDir(join(rootDir, 'src', 'nested'));
+    await ensureDir(join(rootDir, 'vendor', 'lib'));
+    await ensureDir(join(rootDir, 'third-party'));
+    await writeFile(
+      join(rootDir, 'vendor', '.prettierbanner'),
+      'Derived from lib, {{relativePath}}\n'
+    );
+    // Opts the directory out
+    await writeFile(join(rootDir, 'third-party', '.prettierbanner'), '\n');
+    const files = {
+      'src/nested/main.ts': 'export const a = 1;\n',
+      'vendor/lib/util.ts': 'export const b = 2;\n',
+      'third-party/external.ts': '// External license\n\nexport const c = 3;\n',
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(rootDir, name), content);
+    }
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+
+    expect(summary?.files).toEqual([
+      { file: 'src/nested/main.ts', status: 'inserted' },
+      { file: 'vendor/lib/util.ts', status: 'inserted' },
+    ]);
+    expect(await readFile(join(rootDir, 'src/nested/main.ts'), 'utf8')).toBe(
+      '// First party\n\nexport const a = 1;\n'
+    );
+    expect(await readFile(join(rootDir, 'vendor/lib/util.ts'), 'utf8')).toBe(
+      '// Derived from lib, vendor/lib/util.ts\n\nexport const b = 2;\n'
+    );
+    expect(
+      await readFile(join(rootDir, 'third-party/external.ts'), 'utf8')
+    ).toBe(files['third-party/external.ts']);
+
+    // Opted out files keep their headers when banners are removed
+    const removed = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      mode: 'remove',
+      cache: false,
+    });
+    expect(removed?.removed).toBe(2);
+    expect(
+      await readFile(join(rootDir, 'third-party/external.ts'), 'utf8')
+    ).toBe(files['third-party/external.ts']);
+  });
+
+  it('keeps foreign headers and puts the banner above them', async () => {
+    const rootDir = await createTestDirectory('banner', 'foreign-header');
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Copyright (c) Example Corp. {{year}}\nLicensed under MIT.\n'
+    );
+    const spdx = '// SPDX-License-Identifier: Apache-2.0\n\n';
+    const foreignPath = join(rootDir, 'foreign.ts');
+    await writeFile(foreignPath, `${spdx}export const a = 1;\n`);
+    const besidePath = join(rootDir, 'beside.ts');
+    await writeFile(
+      besidePath,
+      `${spdx}// Copyright (c) Example Corp. 2020\n// Licensed under MIT.\n\nexport const b = 2;\n`
+    );
+    const olderPath = join(rootDir, 'older.ts');
+    await writeFile(
+      olderPath,
+      `${spdx}// Copyright (c) Example Corp. 2020\n// Licensed under BSD.\n\nexport const c = 3;\n`
+    );
+    const year = new Date().getFullYear();
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+
+    expect(summary?.files).toEqual([
+      { file: 'beside.ts', status: 'unchanged' },
+      { file: 'foreign.ts', status: 'inserted' },
+      { file: 'older.ts', status: 'replaced' },
+    ]);
+    expect(await readFile(foreignPath, 'utf8')).toBe(
+      `// Copyright (c) Example Corp. ${year}\n// Licensed under MIT.\n\n${spdx}export const a = 1;\n`
+    );
+    // A banner already below a foreign header stays there
+    expect(await readFile(olderPath, 'utf8')).toBe(
+      `${spdx}// Copyright (c) Example Corp. ${year}\n// Licensed under MIT.\n\nexport const c = 3;\n`
+    );
+
+    const rerun = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+    expect(rerun?.files.map(({ status }) => status)).toEqual([
+      'unchanged',
+      'unchanged',
+      'unchanged',
+    ]);
+  });
+
+  it('keeps license headers of other copyright holders', async () => {
+    const rootDir = await createTestDirectory('banner', 'other-holder');
+    const banner =
+      '// Copyright (c) 2024 Acme Corp.\n// SPDX-License-Identifier: MIT\n';
+    await writeFile(join(rootDir, '.prettierbanner'), banner);
+    const notice =
+      '// Copyright (c) 2015 Facebook, Inc.\n// SPDX-License-Identifier: MIT\n\n';
+    const filePath = join(rootDir, 'index.ts');
+    await writeFile(filePath, `${notice}export const a = 1;\n`);
+    const spdxPath = join(rootDir, 'spdx.ts');
+    await writeFile(
+      spdxPath,
+      '// SPDX-License-Identifier: MIT\n\nexport const b = 2;\n'
+    );
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+
+    expect(summary?.files).toEqual([
+      { file: 'index.ts', status: 'inserted' },
+      { file: 'spdx.ts', status: 'replaced' },
+    ]);
+    expect(await readFile(filePath, 'utf8')).toBe(
+      `${banner}\n${notice}export const a = 1;\n`
+    );
+    // The same SPDX line is part of the banner
+    expect(await readFile(spdxPath, 'utf8')).toBe(
+      `${banner}\nexport const b = 2;\n`
+    );
+  });
+
+  it('replaces previous versions of the banner from the git history', async () => {
+    const rootDir = await createTestDirectory('banner', 'previous-versions');
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Made by the ACME team\n'
+    );
+    const filePath = join(rootDir, 'index.ts');
+    await writeFile(
+      filePath,
+      '// Made by the ACME team\n\nexport const a = 1;\n'
+    );
+    git(rootDir, 'init', '-q', '-b', 'main');
+    git(rootDir, 'add', '-A');
+    git(rootDir, 'commit', '-q', '-m', 'base');
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Copyright (c) Example Corp.\n'
+    );
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+
+    expect(summary?.files).toEqual([{ file: 'index.ts', status: 'replaced' }]);
+    expect(await readFile(filePath, 'utf8')).toBe(
+      '// Copyright (c) Example Corp.\n\nexport const a = 1;\n'
+    );
+  });
+
+  it('leaves headers that may or may not be the banner as is', async () => {
+    const rootDir = await createTestDirectory('banner', 'ambiguous-header');
+    await writeFile(
+      join(rootDir, '.prettierbanner'),
+      'Example charts toolkit\nLicensed under MIT.\n'
+    );
+    const filePath = join(rootDir, 'index.ts');
+    const original =
+      '#!/usr/bin/env node\n// Example maps toolkit fork\n// Maintained elsewhere\n\nexport const a = 1;\n';
+    await writeFile(filePath, original);
+
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+
+    expect(summary).toMatchObject({
+      ambiguous: 1,
+      files: [{ file: 'index.ts', status: 'ambiguous' }],
+      diagnostics: [
+        expect.objectContaining({
+          code: 'PMAX006',
+          severity: 'warning',
+          file: filePath,
+          line: 2,
+        }),
+      ],
+    });
+    expect(await readFile(filePath, 'utf8')).toBe(original);
+  });
+
+  it('applies banner files of subdirectories without a root banner', async () => {
+    const rootDir = await createTestDirectory('banner', 'nested-only');
+    await ensureDir(join(rootDir, 'packages', 'app'));
+    await writeFile(
+      join(rootDir, 'packages', 'app', '.prettierbanner'),
+      Array.from({ length: 21 }, (_, i) => `// ${i}`).join('\n')
+    );
+    await writeFile(join(rootDir, 'root.ts'), 'export const a = 1;\n');
+
+    // Banner files are validated wherever they are
+    await expect(
+      applyBanner({ rootDir, logger: makeLogger(), cache: false })
+    ).rejects.toThrow('packages/app/.prettierbanner must not exceed 20 lines');
+
+    await writeFile(
+      join(rootDir, 'packages', 'app', '.prettierbanner'),
+      '// App\n'
+    );
+    const appPath = join(rootDir, 'packages', 'app', 'index.ts');
+    await writeFile(appPath, 'export const b = 2;\n');
+    const summary = await applyBanner({
+      rootDir,
+      logger: makeLogger(),
+      cache: false,
+    });
+
+    expect(summary?.files).toEqual([
+      { file: 'packages/app/index.ts', status: 'inserted' },
+    ]);
+    expect(await readFile(appPath, 'utf8')).toBe(
+      '// App\n\nexport const b = 2;\n'
+    );
+    expect(await readFile(join(rootDir, 'root.ts'), 'utf8')).toBe(
+      'export const a = 1;\n'
+    );
+  });
 });
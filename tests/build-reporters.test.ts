@@ -0,0 +1,253 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import prettierMax, { JUnitReporter, JsonReporter } from '../src/index.js';
+import type { BuildReport, PrettierMaxOptions } from '../src/index.js';
+import * as checker from '../src/checker.js';
+import * as banner from '../src/banner.js';
+import {
+  createPrettierDiagnostic,
+  createPrettierMaxDiagnostic,
+} from '../src/diagnostics.js';
+import { createTestDirectory } from './test-utils.js';
+
+const makeLogger = () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+/**
+ * Run configResolved and buildStart of the plugin, returning the build error
+ */
+const build = async (
+  testDir: string,
+  options: PrettierMaxOptions
+): Promise<unknown> => {
+  const plugin = prettierMax({
+    generatePrettierConfig: false,
+    cache: false,
+    ...options,
+  });
+  const pluginContext = {} as any;
+  const configResolvedHook = plugin.configResolved;
+  if (typeof configResolvedHook === 'function') {
+    await configResolvedHook.call(pluginContext, {
+      root: testDir,
+      logLevel: 'info',
+      customLogger: undefined,
+      logger: makeLogger(),
+    } as any);
+  }
+  const buildStartHook = plugin.buildStart;
+  if (typeof buildStartHook === 'function') {
+    try {
+      await buildStartHook.call(pluginContext, {} as any);
+    } catch (error) {
+      return error;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Project with a banner and two tsconfigs, where `a` has a type error and
+ * a deprecated usage
+ */
+const createProject = async (testName: string): Promise<string> => {
+  const testDir = await createTestDirectory('build-reporters', testName);
+  await fs.writeFile(join(testDir, '.prettierbanner'), '// banner\n');
+  await fs.writeFile(join(testDir, 'index.ts'), 'export const value = 1;\n');
+
+  vi.spyOn(checker, 'runPrettierFormatProject').mockResolvedValue({
+    success: true,
+    errors: [],
+    formattedFiles: [],
+    duration: 12,
+  });
+  vi.spyOn(checker, 'runTypeScriptCheck').mockImplementation(
+    async (_rootDir, _detectDeprecated, _logger, tsconfigPath) => ({
+      success: false,
+      errors: tsconfigPath?.includes('a/')
+        ? [
+            createPrettierMaxDiagnostic('a/main.ts', 'PMAX001', 'old', {
+              line: 2,
+              column: 1,
+            }),
+            {
+              file: 'a/main.ts',
+              line: 1,
+              column: 14,
+              message: 'TS2322: <mismatch> & more',
+              severity: 'error',
+              code: 'TS2322',
+              source: 'typescript',
+              messageText: '<mismatch> & more',
+            },
+          ]
+        : [],
+      formattedFiles: [],
+      duration: 34,
+    })
+  );
+  return testDir;
+};
+
+describe('Build reporters', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes every reporter the results grouped by phase', async () => {
+    const testDir = await createProject('phases');
+    const junit = new JUnitReporter({ cwd: testDir });
+    const json = new JsonReporter({
+      cwd: testDir,
+      outputPath: 'reports/result.json',
+    });
+    const custom = { report: vi.fn(), clear: vi.fn(), reportBuild: vi.fn() };
+
+    const error = await build(testDir, {
+      reporter: [junit, json, custom],
+      typescript: ['a/tsconfig.json', 'b/tsconfig.json'],
+      bannerExtensions: ['.ts'],
+      rules: { PMAX001: 'warn' },
+    });
+    expect(String(error)).toContain('TypeScript validation failed');
+
+    expect(custom.clear).toHaveBeenCalledTimes(1);
+    expect(custom.report).toHaveBeenCalledWith([
+      expect.objectContaining({ code: 'PMAX001', severity: 'warning' }),
+      expect.objectContaining({ code: 'TS2322' }),
+    ]);
+    expect(custom.reportBuild).toHaveBeenCalledTimes(1);
+    const [report] = custom.reportBuild.mock.calls[0]! as [BuildReport];
+    expect(report.success).toBe(false);
+    expect(
+      report.phases.map(({ kind, name, duration }) => ({
+        kind,
+        name,
+        duration,
+      }))
+    ).toEqual([
+      { kind: 'banner', name: 'banner', duration: expect.any(Number) },
+      { kind: 'prettier', name: 'prettier', duration: 12 },
+      {
+        kind: 'typescript',
+        name: 'typescript (a/tsconfig.json)',
+        duration: 34,
+      },
+      {
+        kind: 'typescript',
+        name: 'typescript (b/tsconfig.json)',
+        duration: 34,
+      },
+      { kind: 'rules', name: 'rules', duration: undefined },
+    ]);
+
+    const document = JSON.parse(
+      await fs.readFile(join(testDir, 'reports', 'result.json'), 'utf-8')
+    );
+    expect(document.success).toBe(false);
+    const [, , typescriptA, typescriptB, rules] = document.phases;
+    expect(typescriptA.tsconfig).toBe('a/tsconfig.json');
+    expect(typescriptA.diagnostics.map((d: any) => d.code)).toEqual(['TS2322']);
+    expect(typescriptB.diagnostics).toEqual([]);
+    expect(rules.diagnostics.map((d: any) => d.code)).toEqual(['PMAX001']);
+    expect(rules.rules).toEqual({
+      PMAX001: 'warn',
+      PMAX002: 'error',
+      PMAX003: 'off',
+    });
+
+    const xml = await fs.readFile(junit.outputPath, 'utf-8');
+    expect(xml).toContain(
+      '<testsuites name="prettier-max" tests="7" failures="1" errors="0" skipped="1"'
+    );
+    expect(xml).toContain(
+      '<testsuite name="prettier" tests="1" failures="0" errors="0" skipped="0" time="0.012">'
+    );
+    expect(xml).toContain(
+      '<testcase classname="typescript (a/tsconfig.json)" name="a/main.ts">'
+    );
+    expect(xml).toContain(
+      '<failure message="&lt;mismatch&gt; &amp; more" type="TS2322">a/main.ts:1:14 error TS2322: &lt;mismatch&gt; &amp; more</failure>'
+    );
+    expect(xml).toContain(
+      '<testcase classname="typescript (b/tsconfig.json)" name="typescript (b/tsconfig.json)"/>'
+    );
+    expect(xml).toContain(
+      '<system-out>a/main.ts:2:1 warning PMAX001: old</system-out>'
+    );
+    expect(xml).toMatch(
+      /<testcase classname="rules" name="PMAX003">\s*<skipped\/>/
+    );
+  });
+
+  it('routes banner failures through the reporters', async () => {
+    const testDir = await createProject('banner-failure');
+    vi.spyOn(banner, 'applyBanner').mockRejectedValue(new Error('boom'));
+    const custom = { report: vi.fn(), clear: vi.fn(), reportBuild: vi.fn() };
+
+    const error = await build(testDir, {
+      reporter: custom,
+      typescript: false,
+      failOnError: false,
+    });
+
+    expect(error).toBeUndefined();
+    expect(custom.report).toHaveBeenCalledWith([
+      expect.objectContaining({
+        file: testDir,
+        code: 'PMAX000',
+        severity: 'error',
+        messageText: 'Failed to apply banner: boom',
+      }),
+    ]);
+    const [report] = custom.reportBuild.mock.calls[0]! as [BuildReport];
+    expect(report.success).toBe(false);
+    expect(report.phases.map((phase) => phase.kind)).toEqual([
+      'banner',
+      'prettier',
+    ]);
+  });
+
+  it('reports the phases that ran before formatting failed', async () => {
+    const testDir = await createProject('failure');
+    vi.spyOn(checker, 'runPrettierFormatProject').mockResolvedValue({
+      success: false,
+      errors: [
+        createPrettierDiagnostic(
+          join(testDir, 'index.ts'),
+          'PRETTIER001',
+          'File is not formatted with Prettier'
+        ),
+      ],
+      formattedFiles: [],
+      duration: 5,
+    });
+    const json = new JsonReporter({ cwd: testDir });
+
+    const error = await build(testDir, {
+      reporter: json,
+      bannerExtensions: [],
+    });
+    expect(String(error)).toContain('Prettier formatting failed');
+
+    const document = JSON.parse(await fs.readFile(json.outputPath, 'utf-8'));
+    expect(document.success).toBe(false);
+    expect(document.phases).toEqual([
+      expect.objectContaining({
+        kind: 'prettier',
+        duration: 5,
+        diagnostics: [expect.objectContaining({ file: 'index.ts' })],
+      }),
+    ]);
+  });
+});
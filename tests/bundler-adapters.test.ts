@@ -0,0 +1,131 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { rollup, type RollupLog } from 'rollup';
+import { build, type BuildFailure } from 'esbuild';
+import prettierMaxRollup from '../src/rollup.js';
+import prettierMaxEsbuild from '../src/esbuild.js';
+import { createTestDirectory } from './test-utils.js';
+
+describe('Bundler adapters', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows problems as Rollup warnings and errors', async () => {
+    const testDir = await createTestDirectory('bundler-adapters', 'rollup');
+    await fs.writeFile(
+      join(testDir, 'tsconfig.json'),
+      '{ "compilerOptions": { "strict": true, "noEmit": true } }\n'
+    );
+    await fs.writeFile(
+      join(testDir, 'legacy.ts'),
+      '/** @deprecated Use next */\nexport const legacy = 1;\n'
+    );
+    await fs.writeFile(
+      join(testDir, 'main.ts'),
+      [
+        "import { legacy } from './legacy';",
+        '',
+        'export const value: number = legacy;',
+        "export const broken: number = 'text';",
+        '',
+      ].join('\n')
+    );
+    await fs.writeFile(join(testDir, 'entry.js'), 'export const a = 1;\n');
+    const logs: RollupLog[] = [];
+
+    const error = await rollup({
+      input: join(testDir, 'entry.js'),
+      plugins: [
+        prettierMaxRollup({
+          rootDir: testDir,
+          cache: false,
+          generatePrettierConfig: false,
+          rules: { PMAX001: 'warn' },
+        }),
+      ],
+      onLog: (level, log) => {
+        if (level === 'warn') {
+          logs.push(log);
+        }
+      },
+    }).catch((error: unknown) => error);
+
+    expect(logs).toEqual([
+      expect.objectContaining({
+        plugin: 'prettier-max',
+        pluginCode: 'PMAX001',
+        id: join(testDir, 'main.ts'),
+        loc: { file: join(testDir, 'main.ts'), line: 1, column: 9 },
+      }),
+    ]);
+    expect(error).toMatchObject({
+      plugin: 'prettier-max',
+      pluginCode: 'TS2322',
+      id: join(testDir, 'main.ts'),
+      loc: { file: join(testDir, 'main.ts'), line: 4, column: 13 },
+    });
+    expect((error as RollupLog).message).toContain(
+      [
+        'TypeScript validation failed: 1 error found.',
+        "main.ts(4,14): error TS2322: Type 'string' is not assignable to type 'number'.",
+      ].join('\n')
+    );
+    expect((error as RollupLog).frame).toContain(
+      "> 4 | export const broken: number = 'text';"
+    );
+  }, 60000);
+
+  it('returns problems as esbuild messages from onStart', async () => {
+    const testDir = await createTestDirectory('bundler-adapters', 'esbuild');
+    await fs.writeFile(join(testDir, 'main.js'), 'export const a  =  1\n');
+    const options = {
+      cache: false,
+      generatePrettierConfig: false,
+      typescript: false,
+    };
+
+    const failure = (await build({
+      entryPoints: ['main.js'],
+      absWorkingDir: testDir,
+      write: false,
+      logLevel: 'silent',
+      plugins: [prettierMaxEsbuild({ ...options, mode: 'check' })],
+    }).catch((error: unknown) => error)) as BuildFailure;
+
+    expect(failure.errors).toEqual([
+      expect.objectContaining({
+        pluginName: 'prettier-max',
+        text: 'PRETTIER001: File is not formatted with Prettier',
+        location: expect.objectContaining({
+          file: 'main.js',
+          line: 1,
+          lineText: 'export const a  =  1',
+        }),
+      }),
+    ]);
+
+    // Sources are formatted before esbuild reads them
+    const result = await build({
+      entryPoints: ['main.js'],
+      absWorkingDir: testDir,
+      write: false,
+      logLevel: 'silent',
+      plugins: [prettierMaxEsbuild(options)],
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.outputFiles?.[0]?.text).toContain('const a = 1;');
+  }, 60000);
+});
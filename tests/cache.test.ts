@@ -0,0 +1,126 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createTestDirectory } from './test-utils';
+import { runPrettierFormatProject } from '../src/checker';
+import { applyBanner } from '../src/banner';
+import { getCacheDirectory } from '../src/cache';
+import * as workerPool from '../src/workerPool';
+
+const makeLogger = () => ({
+  info: () => {},
+  debug: () => {},
+  warn: () => {},
+  error: () => {},
+});
+
+describe('Persistent cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('skips files that are unchanged since the previous run', async () => {
+    const rootDir = await createTestDirectory('cache', 'format-skip');
+    const firstPath = join(rootDir, 'first.js');
+    const secondPath = join(rootDir, 'second.js');
+    await writeFile(firstPath, `const  first   =    "a"  ;`);
+    await writeFile(secondPath, `const second = 'b';\n`);
+
+    const first = await runPrettierFormatProject(rootDir, undefined);
+    expect(first.formattedFiles).toEqual([firstPath]);
+
+    const formatSpy = vi.spyOn(workerPool, 'formatFilesInWorkers');
+    await writeFile(secondPath, `const  second   =    "c"  ;`);
+
+    const second = await runPrettierFormatProject(rootDir, undefined);
+
+    expect(formatSpy).toHaveBeenCalledTimes(1);
+    expect(formatSpy.mock.calls[0]![0].files).toEqual([secondPath]);
+    expect(second.formattedFiles).toEqual([secondPath]);
+    expect(await readFile(secondPath, 'utf-8')).toBe(`const second = 'c';\n`);
+  });
+
+  it('does not cache files reported as errors', async () => {
+    const rootDir = await createTestDirectory('cache', 'format-errors');
+    const filePath = join(rootDir, 'unformatted.js');
+    await writeFile(filePath, `const  value   =    "a"  ;`);
+
+    const first = await runPrettierFormatProject(rootDir, undefined, {
+      mode: 'check',
+    });
+    const second = await runPrettierFormatProject(rootDir, undefined, {
+      mode: 'check',
+    });
+
+    expect(first.errors.map((error) => error.file)).toEqual([filePath]);
+    expect(second.errors.map((error) => error.file)).toEqual([filePath]);
+  });
+
+  it('invalidates when .prettierrc changes', async () => {
+    const rootDir = await createTestDirectory('cache', 'format-config');
+    const filePath = join(rootDir, 'value.js');
+    await writeFile(filePath, `const value = 'a';\n`);
+
+    await runPrettierFormatProject(rootDir, undefined);
+    await writeFile(join(rootDir, '.prettierrc'), `{ "semi": false }\n`);
+    const result = await runPrettierFormatProject(rootDir, undefined);
+
+    expect(result.formattedFiles).toEqual([filePath]);
+    expect(await readFile(filePath, 'utf-8')).toBe(`const value = "a"\n`);
+  });
+
+  it('invalidates when a nested .prettierrc changes', async () => {
+    const rootDir = await createTestDirectory('cache', 'format-nested-config');
+    await mkdir(join(rootDir, 'nested'));
+    const nestedConfig = join(rootDir, 'nested', '.prettierrc');
+    await writeFile(nestedConfig, `{ "semi": true }\n`);
+    const filePath = join(rootDir, 'nested', 'value.js');
+    await writeFile(filePath, `const value = 'a';\n`);
+
+    await runPrettierFormatProject(rootDir, undefined);
+    await writeFile(nestedConfig, `{ "semi": false }\n`);
+    const result = await runPrettierFormatProject(rootDir, undefined);
+
+    expect(result.formattedFiles).toEqual([filePath]);
+    expect(await readFile(filePath, 'utf-8')).toBe(`const value = "a"\n`);
+  });
+
+  it('does not write a cache when disabled', async () => {
+    const rootDir = await createTestDirectory('cache', 'disabled');
+    await writeFile(join(rootDir, 'value.js'), `const value = 'a';\n`);
+
+    await runPrettierFormatProject(rootDir, undefined, { cache: false });
+    await applyBanner({ rootDir, logger: makeLogger(), cache: false });
+
+    expect(existsSync(getCacheDirectory(rootDir))).toBe(false);
+  });
+
+  it('reapplies the banner when .prettierbanner changes', async () => {
+    const rootDir = await createTestDirectory('cache', 'banner');
+    const sourcePath = join(rootDir, 'index.ts');
+    await writeFile(join(rootDir, '.prettierbanner'), `// Old banner\n`);
+    await writeFile(sourcePath, 'export const value = 1;\n');
+
+    const first = await applyBanner({ rootDir, logger: makeLogger() });
+    const unchanged = await applyBanner({ rootDir, logger: makeLogger() });
+    await writeFile(join(rootDir, '.prettierbanner'), `// New banner\n`);
+    const updated = await applyBanner({ rootDir, logger: makeLogger() });
+
+    expect(first?.inserted).toBe(1);
+    expect(unchanged?.inserted).toBe(0);
+    expect(unchanged?.replaced).toBe(0);
+    expect(updated?.replaced).toBe(1);
+    expect(await readFile(sourcePath, 'utf8')).toBe(
+      '// New banner\n\nexport const value = 1;\n'
+    );
+    expect(existsSync(join(getCacheDirectory(rootDir), 'banner.json'))).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,170 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  EXIT_FAILURE,
+  EXIT_PROBLEMS,
+  EXIT_SUCCESS,
+  parseCliArguments,
+  runCli,
+} from '../src/cli.js';
+import { createTestDirectory } from './test-utils.js';
+
+describe('Command line interface', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('parses flags mirroring the plugin options', () => {
+    expect(
+      parseCliArguments(
+        [
+          '--root',
+          'packages/app',
+          '--check',
+          '--no-format',
+          '--no-fail-on-error',
+          '--typescript',
+          'tsconfig.json',
+          '--typescript=tsconfig.test.json',
+          '--typescript-concurrency',
+          '2',
+          '--rule',
+          'PMAX001=warn',
+          '--rule=PMAX003=off',
+          '--detect-default-import',
+          'exceptType',
+          '--scope',
+          'since:origin/main',
+          '--banner-extensions',
+          '.ts, .mts',
+          '--banner-style',
+          '.css=jsdoc',
+          '--banner',
+          'check',
+          '--no-cache',
+          '--code-frame',
+          '--reporter',
+          'console',
+          '--reporter=sarif=reports/result.sarif',
+        ],
+        '/work'
+      )
+    ).toEqual({
+      rootDir: '/work/packages/app',
+      options: {
+        mode: 'check',
+        formatOnBuild: false,
+        failOnError: false,
+        typescript: ['tsconfig.json', 'tsconfig.test.json'],
+        typescriptConcurrency: 2,
+        rules: { PMAX001: 'warn', PMAX003: 'off' },
+        detectDefaultImport: 'exceptType',
+        scope: { since: 'origin/main' },
+        bannerExtensions: ['.ts', '.mts'],
+        bannerStyles: { '.css': 'jsdoc' },
+        banner: 'check',
+        cache: false,
+        codeFrame: true,
+      },
+      reporters: [
+        { kind: 'console' },
+        { kind: 'sarif', outputPath: 'reports/result.sarif' },
+      ],
+      verbose: false,
+      help: false,
+      version: false,
+    });
+
+    // Diagnostics go to the console by default
+    expect(parseCliArguments([], '/work').reporters).toEqual([
+      { kind: 'console' },
+    ]);
+
+    expect(() => parseCliArguments(['--rule', 'PMAX009=warn'])).toThrow(
+      '--rule expects'
+    );
+    expect(() => parseCliArguments(['--concurrency', '0'])).toThrow(
+      '--concurrency expects a positive integer: 0'
+    );
+    expect(() => parseCliArguments(['--reporter', 'html'])).toThrow(
+      '--reporter expects console, sarif, junit or json: html'
+    );
+    expect(() => parseCliArguments(['--config'])).toThrow(
+      '--config expects a value'
+    );
+  });
+
+  it('exits with 2 on invalid arguments', async () => {
+    expect(await runCli(['--unknown'])).toBe(EXIT_FAILURE);
+    expect(console.error).toHaveBeenCalledWith(
+      'prettier-max: Unknown argument: --unknown'
+    );
+  });
+
+  it('exits with 1 while problems remain and 0 once fixed', async () => {
+    const testDir = await createTestDirectory('cli', 'exit-codes');
+    await fs.writeFile(join(testDir, 'main.ts'), 'const a  =  1\n');
+    const args = [
+      '--root',
+      testDir,
+      '--no-typescript',
+      '--no-cache',
+      '--no-generate-config',
+    ];
+
+    expect(
+      await runCli([...args, '--check', '--reporter', 'json=report.json'])
+    ).toBe(EXIT_PROBLEMS);
+    const report = JSON.parse(
+      await fs.readFile(join(testDir, 'report.json'), 'utf-8')
+    );
+    expect(report.success).toBe(false);
+    expect(report.phases[0].diagnostics).toEqual([
+      expect.objectContaining({ file: 'main.ts', code: 'PRETTIER001' }),
+    ]);
+    // Check mode leaves the file alone
+    expect(await fs.readFile(join(testDir, 'main.ts'), 'utf-8')).toBe(
+      'const a  =  1\n'
+    );
+
+    expect(await runCli(args)).toBe(EXIT_SUCCESS);
+    expect(await fs.readFile(join(testDir, 'main.ts'), 'utf-8')).toBe(
+      'const a = 1;\n'
+    );
+    expect(await runCli([...args, '--check'])).toBe(EXIT_SUCCESS);
+  });
+
+  it('exits with 0 on problems without failing on errors', async () => {
+    const testDir = await createTestDirectory('cli', 'no-fail-on-error');
+    await fs.writeFile(join(testDir, 'main.ts'), 'const a  =  1\n');
+    const args = [
+      '--root',
+      testDir,
+      '--no-typescript',
+      '--no-cache',
+      '--no-generate-config',
+      '--check',
+    ];
+
+    expect(await runCli([...args, '--no-fail-on-error'])).toBe(EXIT_SUCCESS);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('1 file not formatted')
+    );
+    expect(await runCli(args)).toBe(EXIT_PROBLEMS);
+
+    // Nothing is checked without formatting
+    expect(await runCli([...args, '--no-format'])).toBe(EXIT_SUCCESS);
+  });
+});
@@ -0,0 +1,162 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import prettierMax, { ConsoleReporter } from '../src/index.js';
+import * as checker from '../src/checker.js';
+import { isColorEnabled } from '../src/colors.js';
+import {
+  createPrettierDiagnostic,
+  createPrettierMaxDiagnostic,
+} from '../src/diagnostics.js';
+import { createTestDirectory } from './test-utils.js';
+
+const makeLogger = () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const SOURCE = `import { legacy } from './legacy';\n\nexport const value = legacy;\nexport const other = 2;\n`;
+
+const deprecated = createPrettierMaxDiagnostic(
+  'main.ts',
+  'PMAX001',
+  "'legacy' is deprecated",
+  { line: 3, column: 22, endLine: 3, endColumn: 28 }
+);
+
+describe('Code frames in console output', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('honors FORCE_COLOR and NO_COLOR', () => {
+    expect(isColorEnabled({}, true)).toBe(true);
+    expect(isColorEnabled({}, false)).toBe(false);
+    expect(isColorEnabled({ NO_COLOR: '1' }, true)).toBe(false);
+    expect(isColorEnabled({ NO_COLOR: '' }, true)).toBe(true);
+    expect(isColorEnabled({ FORCE_COLOR: '1' }, false)).toBe(true);
+    expect(isColorEnabled({ FORCE_COLOR: '', NO_COLOR: '1' }, false)).toBe(
+      true
+    );
+    expect(isColorEnabled({ FORCE_COLOR: '0' }, true)).toBe(false);
+  });
+
+  it('prints a frame below each diagnostic when enabled', async () => {
+    const testDir = await createTestDirectory('code-frame', 'reporter');
+    await fs.writeFile(join(testDir, 'main.ts'), SOURCE);
+    const logger = makeLogger();
+
+    const reporter = new ConsoleReporter(testDir, {
+      codeFrame: { linesAbove: 1, linesBelow: 0 },
+      color: false,
+    });
+    reporter.setBuildMode(true);
+    reporter.setLogger(logger);
+    reporter.report([
+      deprecated,
+      // Files that cannot be read are printed without a frame
+      createPrettierDiagnostic('missing.js', 'PRETTIER001', 'not formatted', {
+        line: 1,
+        column: 1,
+      }),
+    ]);
+
+    expect(logger.error.mock.calls.flat()).toEqual([
+      [
+        "main.ts(3,22): error PMAX001: 'legacy' is deprecated",
+        '  2 |',
+        '> 3 | export const value = legacy;',
+        '    |                      ^^^^^^',
+      ].join('\n'),
+      'missing.js(1,1): error PRETTIER001: not formatted',
+    ]);
+
+    const plain = makeLogger();
+    const withoutFrames = new ConsoleReporter(testDir, { color: false });
+    withoutFrames.setLogger(plain);
+    withoutFrames.report([deprecated]);
+    expect(plain.error.mock.calls.flat()).toEqual([
+      "main.ts(3,22): error PMAX001: 'legacy' is deprecated",
+    ]);
+  });
+
+  it('colors the marker by severity', async () => {
+    const testDir = await createTestDirectory('code-frame', 'color');
+    await fs.writeFile(join(testDir, 'main.ts'), SOURCE);
+    const logger = makeLogger();
+
+    const reporter = new ConsoleReporter(testDir, {
+      codeFrame: true,
+      color: true,
+    });
+    reporter.setLogger(logger);
+    reporter.report([{ ...deprecated, severity: 'warning' }]);
+
+    const [output] = logger.warn.mock.calls.flat();
+    expect(output).toContain('\x1b[33m>\x1b[0m \x1b[90m3 |\x1b[0m');
+    expect(output).toContain('\x1b[33m^^^^^^\x1b[0m');
+    // Two lines above, and the last line below
+    expect(output).toContain('1 |\x1b[0m import');
+    expect(output).toContain('4 |\x1b[0m export const other = 2;');
+  });
+
+  it('applies the codeFrame option to the default reporter', async () => {
+    const testDir = await createTestDirectory('code-frame', 'plugin');
+    await fs.writeFile(join(testDir, 'main.ts'), SOURCE);
+    vi.spyOn(checker, 'runPrettierFormatProject').mockResolvedValue({
+      success: false,
+      errors: [
+        createPrettierDiagnostic(
+          join(testDir, 'main.ts'),
+          'PRETTIER001',
+          'File is not formatted with Prettier',
+          { line: 4, column: 8 }
+        ),
+      ],
+      formattedFiles: [],
+      duration: 1,
+    });
+    vi.stubEnv('NO_COLOR', '1');
+    vi.stubEnv('FORCE_COLOR', undefined);
+    const logger = makeLogger();
+
+    const plugin = prettierMax({
+      codeFrame: { linesAbove: 0, linesBelow: 0 },
+      failOnError: false,
+      typescript: false,
+      generatePrettierConfig: false,
+      bannerExtensions: [],
+      cache: false,
+    });
+    const pluginContext = {} as any;
+    const configResolvedHook = plugin.configResolved;
+    if (typeof configResolvedHook === 'function') {
+      await configResolvedHook.call(pluginContext, {
+        root: testDir,
+        logLevel: 'info',
+        customLogger: undefined,
+        logger,
+      } as any);
+    }
+    const buildStartHook = plugin.buildStart;
+    if (typeof buildStartHook === 'function') {
+      await buildStartHook.call(pluginContext, {} as any);
+    }
+    vi.unstubAllEnvs();
+
+    expect(logger.error.mock.calls.flat().join('\n')).toContain(
+      [
+        'main.ts(4,8): error PRETTIER001: File is not formatted with Prettier',
+        '> 4 | export const other = 2;',
+        '    |        ^',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,190 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  runPrettierFormatProject,
+  runTypeScriptCheck,
+} from '../src/checker.js';
+import { ConsoleReporter } from '../src/reporters/console.js';
+import type { DiagnosticTextEdit } from '../src/types.js';
+import { createTestDirectory } from './test-utils.js';
+
+const createProject = async (testName: string): Promise<string> => {
+  const testDir = await createTestDirectory('diagnostics', testName);
+  await fs.writeFile(
+    join(testDir, 'tsconfig.json'),
+    JSON.stringify({
+      compilerOptions: {
+        target: 'ES2020',
+        module: 'ESNext',
+        lib: ['ES2020'],
+        skipLibCheck: true,
+        moduleResolution: 'bundler',
+        noEmit: true,
+        strict: true,
+      },
+      include: ['*.ts'],
+    })
+  );
+  return testDir;
+};
+
+/**
+ * Apply edits of a fix to the text, last edit first
+ */
+const applyEdits = (text: string, edits: DiagnosticTextEdit[]): string => {
+  const lineStarts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') {
+      lineStarts.push(index + 1);
+    }
+  }
+  const toOffset = (line: number, column: number) =>
+    lineStarts[line - 1]! + column - 1;
+  return [...edits]
+    .sort((a, b) => toOffset(b.line, b.column) - toOffset(a.line, a.column))
+    .reduce(
+      (current, edit) =>
+        current.slice(0, toOffset(edit.line, edit.column)) +
+        edit.newText +
+        current.slice(toOffset(edit.endLine, edit.endColumn)),
+      text
+    );
+};
+
+describe('Structured diagnostics', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('converts TypeScript diagnostics with ranges and related locations', async () => {
+    const testDir = await createProject('typescript');
+    await fs.writeFile(
+      join(testDir, 'main.ts'),
+      `export const value: number = 'text';\nconst call = (x: number) => x;\ncall();\n`
+    );
+
+    const result = await runTypeScriptCheck(testDir, false);
+
+    const assignment = result.errors.find((error) => error.code === 'TS2322');
+    expect(assignment).toMatchObject({
+      file: join(testDir, 'main.ts'),
+      line: 1,
+      column: 14,
+      endLine: 1,
+      endColumn: 19,
+      severity: 'error',
+      source: 'typescript',
+      messageText: "Type 'string' is not assignable to type 'number'.",
+      message: "TS2322: Type 'string' is not assignable to type 'number'.",
+    });
+
+    const missingArgument = result.errors.find(
+      (error) => error.code === 'TS2554'
+    );
+    expect(missingArgument?.relatedInformation).toEqual([
+      {
+        file: join(testDir, 'main.ts'),
+        line: 2,
+        column: 15,
+        endLine: 2,
+        endColumn: 24,
+        message: "An argument for 'x' was not provided.",
+      },
+    ]);
+  });
+
+  it('locates PMAX findings and offers a fix for unused directives', async () => {
+    const testDir = await createProject('pmax');
+    const declaration = `/**\n * @deprecated Use modern instead\n */\nexport const legacy = 1;\nexport const modern = 2;\n\n`;
+    await fs.writeFile(
+      join(testDir, 'main.ts'),
+      `${declaration}export const value = modern + legacy;\n`
+    );
+
+    const [deprecated] = (
+      await runTypeScriptCheck(testDir, true)
+    ).errors.filter((error) => error.code === 'PMAX001');
+    expect(deprecated).toMatchObject({
+      line: 7,
+      column: 31,
+      endLine: 7,
+      endColumn: 37,
+      severity: 'error',
+      source: 'prettier-max',
+      messageText: "'legacy' is deprecated: Use modern instead",
+      message: "PMAX001: 'legacy' is deprecated: Use modern instead",
+    });
+    expect(deprecated!.fix).toBeUndefined();
+
+    // The directive suppresses nothing on the following line.
+    const source = `${declaration}  // @prettier-max-ignore-deprecated: not needed\nexport const value = modern;\n`;
+    await fs.writeFile(join(testDir, 'main.ts'), source);
+    const unused = (await runTypeScriptCheck(testDir, true)).errors.find(
+      (error) => error.code === 'PMAX002'
+    );
+    expect(unused).toMatchObject({ line: 7, column: 3 });
+    expect(unused!.fix?.edits).toHaveLength(1);
+    const fixed = applyEdits(source, unused!.fix!.edits);
+    expect(fixed).toBe(`${declaration}export const value = modern;\n`);
+  });
+
+  it('codes formatting diagnostics', async () => {
+    const testDir = await createTestDirectory('diagnostics', 'prettier');
+    await fs.writeFile(join(testDir, 'broken.js'), `const x = ;\n`);
+    await fs.writeFile(join(testDir, 'messy.js'), `const  y = 1;\n`);
+
+    const result = await runPrettierFormatProject(testDir, undefined, {
+      mode: 'check',
+    });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        file: join(testDir, 'broken.js'),
+        code: 'PRETTIER002',
+        source: 'prettier',
+        line: 1,
+        column: 11,
+      }),
+      expect.objectContaining({
+        file: join(testDir, 'messy.js'),
+        code: 'PRETTIER001',
+        source: 'prettier',
+        message: 'File is not formatted with Prettier',
+        messageText: 'File is not formatted with Prettier',
+      }),
+    ]);
+  });
+
+  it('prints codes through ConsoleReporter, defaulting plain errors', () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    const reporter = new ConsoleReporter('/project');
+    reporter.setBuildMode(true);
+
+    reporter.report([
+      {
+        file: '/project/src/a.ts',
+        line: 2,
+        column: 3,
+        message: 'TS2322: mismatch',
+        severity: 'error',
+        code: 'TS2322',
+        source: 'typescript',
+        messageText: 'mismatch',
+      },
+      { file: '/project/src/b.ts', message: 'File is not formatted' },
+    ]);
+
+    expect(consoleErrorSpy.mock.calls.flat()).toEqual([
+      '/project/src/a.ts(2,3): error TS2322: mismatch',
+      '/project/src/b.ts(1,1): error PRETTIER001: File is not formatted',
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { createTestDirectory } from './test-utils';
+import { createFormatOnSaveScheduler } from '../src/formatOnSave';
+import * as checker from '../src/checker';
+
+const makeLogger = () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const makeReporter = () => ({
+  report: vi.fn(),
+  clear: vi.fn(),
+});
+
+describe('format on save', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('formats the saved file and clears the reporter', async () => {
+    const rootDir = await createTestDirectory('format-on-save', 'format');
+    const filePath = path.join(rootDir, 'saved.js');
+    const content = `const  foo   =    "bar"  ;`;
+    await writeFile(filePath, content);
+
+    const reporter = makeReporter();
+    const scheduler = createFormatOnSaveScheduler({
+      rootDir,
+      configPath: undefined,
+      logger: makeLogger(),
+      reporter,
+      debounceMs: 10,
+    });
+
+    scheduler.notify(filePath, content);
+    await scheduler.flush();
+    scheduler.dispose();
+
+    expect(await readFile(filePath, 'utf-8')).toBe(`const foo = 'bar';\n`);
+    expect(reporter.clear).toHaveBeenCalledTimes(1);
+    expect(reporter.report).not.toHaveBeenCalled();
+  });
+
+  it('debounces bursts of saves into a single batch', async () => {
+    const rootDir = await createTestDirectory('format-on-save', 'debounce');
+    const formatSpy = vi.spyOn(checker, 'runPrettierFormatFiles');
+
+    const scheduler = createFormatOnSaveScheduler({
+      rootDir,
+      configPath: undefined,
+      logger: makeLogger(),
+      reporter: makeReporter(),
+      debounceMs: 50,
+    });
+
+    const first = path.join(rootDir, 'b.js');
+    const second = path.join(rootDir, 'a.js');
+    await writeFile(first, `const b = 1;\n`);
+    await writeFile(second, `const a = 1;\n`);
+
+    scheduler.notify(first, `const b = 1;\n`);
+    scheduler.notify(second, `const a = 1;\n`);
+    scheduler.notify(first, `const b = 1;\n`);
+    await scheduler.flush();
+    scheduler.dispose();
+
+    expect(formatSpy).toHaveBeenCalledTimes(1);
+    expect(formatSpy).toHaveBeenCalledWith(
+      rootDir,
+      undefined,
+      [second, first],
+      expect.objectContaining({ mode: 'write' })
+    );
+  });
+
+  it('does not loop on its own rewrite', async () => {
+    const rootDir = await createTestDirectory('format-on-save', 'no-loop');
+    const filePath = path.join(rootDir, 'loop.js');
+    const content = `const  loop   =    "x"  ;`;
+    await writeFile(filePath, content);
+    const formatSpy = vi.spyOn(checker, 'runPrettierFormatFiles');
+
+    const scheduler = createFormatOnSaveScheduler({
+      rootDir,
+      configPath: undefined,
+      logger: makeLogger(),
+      reporter: makeReporter(),
+      debounceMs: 10,
+    });
+
+    scheduler.notify(filePath, content);
+    await scheduler.flush();
+
+    // The watcher reports our own write back to us
+    scheduler.notify(filePath, await readFile(filePath, 'utf-8'));
+    await scheduler.flush();
+    scheduler.dispose();
+
+    expect(formatSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores files outside the project and in node_modules', async () => {
+    const rootDir = await createTestDirectory('format-on-save', 'outside');
+    const formatSpy = vi.spyOn(checker, 'runPrettierFormatFiles');
+
+    const scheduler = createFormatOnSaveScheduler({
+      rootDir,
+      configPath: undefined,
+      logger: makeLogger(),
+      reporter: makeReporter(),
+      debounceMs: 10,
+    });
+
+    scheduler.notify(path.join(rootDir, '..', 'outside.js'), '');
+    scheduler.notify(path.join(rootDir, 'node_modules', 'pkg', 'x.js'), '');
+    await scheduler.flush();
+    scheduler.dispose();
+
+    expect(formatSpy).not.toHaveBeenCalled();
+  });
+
+  it('reports errors through the reporter', async () => {
+    const rootDir = await createTestDirectory('format-on-save', 'errors');
+    const filePath = path.join(rootDir, 'broken.js');
+    const content = `const broken = ;\n`;
+    await writeFile(filePath, content);
+
+    const reporter = makeReporter();
+    const scheduler = createFormatOnSaveScheduler({
+      rootDir,
+      configPath: undefined,
+      logger: makeLogger(),
+      reporter,
+      debounceMs: 10,
+    });
+
+    scheduler.notify(filePath, content);
+    await scheduler.flush();
+    scheduler.dispose();
+
+    expect(reporter.report).toHaveBeenCalledTimes(1);
+    expect(reporter.clear).not.toHaveBeenCalled();
+    expect(await readFile(filePath, 'utf-8')).toBe(content);
+  });
+
+  it('keeps the errors of files not saved again', async () => {
+    const rootDir = await createTestDirectory('format-on-save', 'keep-errors');
+    const brokenPath = path.join(rootDir, 'broken.js');
+    const brokenContent = `const broken = ;\n`;
+    await writeFile(brokenPath, brokenContent);
+    const cleanPath = path.join(rootDir, 'clean.js');
+    const cleanContent = `const  clean   =    1  ;`;
+    await writeFile(cleanPath, cleanContent);
+
+    const reporter = makeReporter();
+    const scheduler = createFormatOnSaveScheduler({
+      rootDir,
+      configPath: undefined,
+      logger: makeLogger(),
+      reporter,
+      debounceMs: 10,
+    });
+
+    scheduler.notify(brokenPath, brokenContent);
+    await scheduler.flush();
+    scheduler.notify(cleanPath, cleanContent);
+    await scheduler.flush();
+
+    // broken.js is still broken after clean.js is saved
+    expect(reporter.clear).not.toHaveBeenCalled();
+    expect(reporter.report).toHaveBeenCalledTimes(2);
+    expect(reporter.report.mock.calls[1]![0]).toEqual([
+      expect.objectContaining({ file: brokenPath }),
+    ]);
+
+    await writeFile(brokenPath, `const fixed = 1;\n`);
+    scheduler.notify(brokenPath, `const fixed = 1;\n`);
+    await scheduler.flush();
+    scheduler.dispose();
+
+    expect(reporter.clear).toHaveBeenCalledTimes(1);
+  });
+});
@@ -56,6 +56,26 @@ describe('prettier-max plugin', () => {
       const output = consoleLogSpy.mock.calls.flat().join('\n');
       expect(output).toContain('All files are properly formatted');
     });
+
+    it('should word the summary by the source of the diagnostics', () => {
+      reporter.report([
+        {
+          file: '/project/src/index.ts',
+          line: 3,
+          column: 7,
+          message: 'TS2322: Type mismatch',
+          severity: 'error',
+          code: 'TS2322',
+          source: 'typescript',
+          messageText: 'Type mismatch',
+        },
+      ]);
+
+      const output = consoleLogSpy.mock.calls.flat().join('\n');
+      expect(output).toContain('1 TypeScript problem found');
+      expect(output).not.toContain('formatting');
+      expect(output).not.toContain('prettier --write');
+    });
   });
 
   describe('prettier format integration', () => {
@@ -103,6 +123,32 @@ const baz = 'qux';
       const contentAfter = await readFile(filePath, 'utf-8');
       expect(contentAfter).toBe(formattedContent);
     });
+
+    it('should report unformatted files without rewriting in check mode', async () => {
+      const unformattedContent = `const foo = 'bar';
+const    baz="qux";
+`;
+      const filePath = path.join(testDir, 'check-mode.js');
+      await writeFile(filePath, unformattedContent);
+
+      const result = await checker.runPrettierFormatProject(
+        testDir,
+        undefined,
+        { mode: 'check' }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.formattedFiles).toHaveLength(0);
+      const error = result.errors.find((e) => e.file === filePath);
+      expect(error).toBeDefined();
+      expect(error?.message).toBe('File is not formatted with Prettier');
+      expect(error?.line).toBe(2);
+      expect(error?.column).toBe(7);
+
+      // Check mode must not touch the disk
+      const contentAfter = await readFile(filePath, 'utf-8');
+      expect(contentAfter).toBe(unformattedContent);
+    });
   });
 
   describe('plugin initialization', () => {
@@ -182,6 +228,57 @@ const baz = 'qux';
 
       expect(plugin.buildStart).toBeDefined();
     });
+
+    it('should fail the build in check mode without rewriting files', async () => {
+      const checkDir = await createTestDirectory('prettier-max', 'check-mode');
+      const unformattedPath = path.join(checkDir, 'unformatted.js');
+      await writeFile(unformattedPath, `const  foo   =    "bar"  ;`);
+
+      const mockReporter = {
+        report: vi.fn(),
+        clear: vi.fn(),
+      };
+      const mockLogger = {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+      };
+
+      const plugin = prettierMax({
+        mode: 'check',
+        reporter: mockReporter,
+        typescript: false,
+        generatePrettierConfig: false,
+        bannerExtensions: [],
+      });
+
+      const pluginContext = {} as any;
+      const configResolvedHook = plugin.configResolved;
+      if (typeof configResolvedHook === 'function') {
+        await configResolvedHook.call(pluginContext, {
+          root: checkDir,
+          logLevel: 'info',
+          customLogger: undefined,
+          logger: mockLogger,
+        } as any);
+      }
+
+      const buildStartHook = plugin.buildStart;
+      if (typeof buildStartHook === 'function') {
+        await expect(
+          buildStartHook.call(pluginContext, {} as any)
+        ).rejects.toThrow(/Prettier formatting failed/);
+      }
+
+      expect(mockReporter.report).toHaveBeenCalledTimes(1);
+      const [reported] = mockReporter.report.mock.calls[0]!;
+      expect(reported).toHaveLength(1);
+      expect(reported[0].file).toBe(unformattedPath);
+      expect(await readFile(unformattedPath, 'utf-8')).toBe(
+        `const  foo   =    "bar"  ;`
+      );
+    });
   });
 
   describe('TypeScript validation options', () => {
@@ -261,7 +358,8 @@ const baz = 'qux';
         true,
         expect.anything(),
         resolvedApp,
-        'none'
+        'none',
+        true
       );
       expect(typeCheckSpy).toHaveBeenNthCalledWith(
         2,
@@ -269,7 +367,100 @@ const baz = 'qux';
         true,
         expect.anything(),
         resolvedBuild,
-        'none'
+        'none',
+        true
+      );
+    });
+
+    it('reports diagnostics shared by several tsconfigs once', async () => {
+      const testDir = await createTestDirectory('prettier-max', 'ts-dedupe');
+
+      const mockLogger = {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+      };
+      const sharedError = {
+        file: 'src/shared.ts',
+        line: 1,
+        column: 14,
+        message: "TS2322: Type 'string' is not assignable to type 'number'.",
+        severity: 'error' as const,
+        code: 'TS2322',
+        source: 'typescript' as const,
+        messageText: "Type 'string' is not assignable to type 'number'.",
+      };
+      const testError = {
+        file: 'tests/shared.test.ts',
+        line: 2,
+        column: 1,
+        message: "TS2304: Cannot find name 'missing'.",
+        severity: 'error' as const,
+        code: 'TS2304',
+        source: 'typescript' as const,
+        messageText: "Cannot find name 'missing'.",
+      };
+
+      vi.spyOn(checker, 'getPrettierVersion').mockResolvedValue('3.0.0');
+      vi.spyOn(checker, 'getTypeScriptVersion').mockResolvedValue('5.4.0');
+      vi.spyOn(checker, 'runPrettierFormatProject').mockResolvedValue({
+        success: true,
+        errors: [],
+        formattedFiles: [],
+        duration: 5,
+      });
+      vi.spyOn(checker, 'runTypeScriptCheck')
+        .mockResolvedValueOnce({
+          success: false,
+          errors: [sharedError],
+          formattedFiles: [],
+          duration: 10,
+        })
+        .mockResolvedValueOnce({
+          success: false,
+          errors: [sharedError, testError],
+          formattedFiles: [],
+          duration: 10,
+        });
+
+      const plugin = prettierMax({
+        typescript: ['tsconfig.app.json', 'tsconfig.test.json'],
+        typescriptConcurrency: 2,
+        generatePrettierConfig: false,
+        bannerExtensions: [],
+      });
+
+      const pluginContext = {} as any;
+      const configResolvedHook = plugin.configResolved;
+      if (typeof configResolvedHook === 'function') {
+        await configResolvedHook.call(pluginContext, {
+          root: testDir,
+          logLevel: 'info',
+          customLogger: undefined,
+          logger: mockLogger,
+        } as any);
+      }
+
+      const buildStartHook = plugin.buildStart;
+      let buildError: unknown;
+      if (typeof buildStartHook === 'function') {
+        try {
+          await buildStartHook.call(pluginContext, {} as any);
+        } catch (error) {
+          buildError = error;
+        }
+      }
+
+      const errorOutput = mockLogger.error.mock.calls.flat().join('\n');
+      // Printed by the default console reporter
+      expect(errorOutput.match(/src\/shared\.ts\(1,14\)/g)).toHaveLength(1);
+      expect(errorOutput).toContain(
+        "tests/shared.test.ts(2,1): error TS2304: Cannot find name 'missing'."
+      );
+      expect(errorOutput).toContain('(1 already reported above)');
+      expect(String(buildError)).toContain(
+        'TypeScript validation failed: 2 errors found.'
       );
     });
   });
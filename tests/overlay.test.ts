@@ -0,0 +1,192 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import prettierMax from '../src/index.js';
+import * as checker from '../src/checker.js';
+import { createCodeFrame } from '../src/codeFrame.js';
+import { OverlayReporter } from '../src/reporters/overlay.js';
+import { OVERLAY_EVENT, OVERLAY_REQUEST_EVENT } from '../src/overlayClient.js';
+import { createPrettierDiagnostic } from '../src/diagnostics.js';
+import { createTestDirectory } from './test-utils.js';
+
+const makeLogger = () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const createChannel = () => {
+  const listeners = new Map<string, (data: any, client: any) => void>();
+  return {
+    send: vi.fn(),
+    on: vi.fn((event: string, listener: (data: any, client: any) => void) => {
+      listeners.set(event, listener);
+    }),
+    request: (client: { send: (...args: any[]) => void }) =>
+      listeners.get(OVERLAY_REQUEST_EVENT)?.(undefined, client),
+  };
+};
+
+describe('Dev server overlay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('renders code frames marking the reported range', () => {
+    const source = `const a = 1;\n\tconst b: number = 'x';\nconst c = 3;\n`;
+
+    expect(
+      createCodeFrame(
+        source,
+        { line: 2, column: 20, endLine: 2, endColumn: 23 },
+        { linesAbove: 1, linesBelow: 1 }
+      )
+    ).toBe(
+      [
+        '  1 | const a = 1;',
+        "> 2 | \tconst b: number = 'x';",
+        '    | \t                  ^^^',
+        '  3 | const c = 3;',
+      ].join('\n')
+    );
+    // Without a column only the line is marked
+    expect(createCodeFrame(source, { line: 1 }, { linesBelow: 0 })).toBe(
+      '> 1 | const a = 1;'
+    );
+  });
+
+  it('sends diagnostics with code frames and replays them to new clients', async () => {
+    const testDir = await createTestDirectory('overlay', 'reporter');
+    await fs.writeFile(
+      join(testDir, 'main.ts'),
+      `export const value: number = 'text';\n`
+    );
+    const channel = createChannel();
+    const reporter = new OverlayReporter(channel, testDir);
+
+    reporter.report([
+      {
+        file: 'main.ts',
+        line: 1,
+        column: 14,
+        endLine: 1,
+        endColumn: 19,
+        message: "TS2322: Type 'string' is not assignable to type 'number'.",
+        severity: 'error',
+        code: 'TS2322',
+        source: 'typescript',
+        messageText: "Type 'string' is not assignable to type 'number'.",
+      },
+      { file: join(testDir, 'missing.js'), message: 'File is not formatted' },
+    ]);
+
+    const payload = {
+      diagnostics: [
+        {
+          file: 'main.ts',
+          line: 1,
+          column: 14,
+          severity: 'error',
+          code: 'TS2322',
+          message: "Type 'string' is not assignable to type 'number'.",
+          frame: [
+            "> 1 | export const value: number = 'text';",
+            '    |              ^^^^^',
+          ].join('\n'),
+        },
+        {
+          file: 'missing.js',
+          severity: 'error',
+          code: 'PRETTIER001',
+          message: 'File is not formatted',
+        },
+      ],
+    };
+    expect(channel.send).toHaveBeenCalledWith(OVERLAY_EVENT, payload);
+
+    const client = { send: vi.fn() };
+    channel.request(client);
+    expect(client.send).toHaveBeenCalledWith(OVERLAY_EVENT, payload);
+
+    reporter.clear();
+    expect(channel.send).toHaveBeenLastCalledWith(OVERLAY_EVENT, {
+      diagnostics: [],
+    });
+  });
+
+  it('injects the panel and reports build problems in the dev server', async () => {
+    const testDir = await createTestDirectory('overlay', 'plugin');
+    vi.spyOn(checker, 'runPrettierFormatProject').mockResolvedValue({
+      success: false,
+      errors: [
+        createPrettierDiagnostic(
+          join(testDir, 'a.js'),
+          'PRETTIER001',
+          'File is not formatted with Prettier'
+        ),
+      ],
+      formattedFiles: [],
+      duration: 1,
+    });
+    const channel = createChannel();
+    const logger = makeLogger();
+
+    const plugin = prettierMax({
+      overlay: true,
+      failOnError: false,
+      typescript: false,
+      generatePrettierConfig: false,
+      bannerExtensions: [],
+      cache: false,
+    });
+    const pluginContext = {} as any;
+    const configResolvedHook = plugin.configResolved;
+    if (typeof configResolvedHook === 'function') {
+      await configResolvedHook.call(pluginContext, {
+        root: testDir,
+        logLevel: 'info',
+        customLogger: undefined,
+        logger,
+      } as any);
+    }
+
+    const transformIndexHtmlHook = plugin.transformIndexHtml as any;
+    expect(transformIndexHtmlHook.call(pluginContext, '')).toBeUndefined();
+
+    const configureServerHook = plugin.configureServer;
+    if (typeof configureServerHook === 'function') {
+      await configureServerHook.call(pluginContext, {
+        config: { logger, logLevel: 'info', base: '/app/' },
+        ws: channel,
+      } as any);
+    }
+    const [tag] = transformIndexHtmlHook.call(pluginContext, '');
+    expect(tag).toMatchObject({
+      tag: 'script',
+      attrs: { type: 'module' },
+      injectTo: 'body',
+    });
+    expect(tag.children).toContain('"/app/@vite/client"');
+    expect(tag.children).toContain(`hot.on("${OVERLAY_EVENT}"`);
+
+    const buildStartHook = plugin.buildStart;
+    if (typeof buildStartHook === 'function') {
+      await buildStartHook.call(pluginContext, {} as any);
+    }
+    expect(channel.send).toHaveBeenLastCalledWith(OVERLAY_EVENT, {
+      diagnostics: [
+        expect.objectContaining({ file: 'a.js', code: 'PRETTIER001' }),
+      ],
+    });
+    // The console output is kept next to the panel
+    expect(logger.error.mock.calls.flat().join('\n')).toContain(
+      'a.js(1,1): error PRETTIER001'
+    );
+  });
+});
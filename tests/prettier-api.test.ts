@@ -0,0 +1,80 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect } from 'vitest';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { createTestDirectory } from './test-utils';
+import {
+  runPrettierFormatProject,
+  runPrettierFormatFiles,
+} from '../src/checker';
+
+describe('In-process Prettier API', () => {
+  it('reports syntax errors with file, line and column', async () => {
+    const testDir = await createTestDirectory('prettier-api', 'syntax-error');
+    const brokenPath = path.join(testDir, 'broken.js');
+    const fixablePath = path.join(testDir, 'fixable.js');
+    await writeFile(brokenPath, `const ok = 1;\nconst broken = ;\n`);
+    await writeFile(fixablePath, `const  fixable   =    "yes"  ;`);
+
+    const result = await runPrettierFormatProject(testDir, undefined);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toEqual({
+      file: brokenPath,
+      line: 2,
+      column: 16,
+      message: 'SyntaxError: Unexpected token',
+      severity: 'error',
+      code: 'PRETTIER002',
+      source: 'prettier',
+      messageText: 'SyntaxError: Unexpected token',
+    });
+
+    // Other files are still formatted
+    expect(result.formattedFiles).toEqual([fixablePath]);
+    expect(await readFile(fixablePath, 'utf-8')).toBe(
+      `const fixable = 'yes';\n`
+    );
+  });
+
+  it('honours .prettierignore and .gitignore', async () => {
+    const testDir = await createTestDirectory('prettier-api', 'ignore-files');
+    await writeFile(path.join(testDir, '.prettierignore'), 'ignored.js\n');
+    await writeFile(path.join(testDir, '.gitignore'), 'out/\n');
+    await mkdir(path.join(testDir, 'out'), { recursive: true });
+
+    const unformatted = `const  value   =    "x"  ;`;
+    const ignoredPath = path.join(testDir, 'ignored.js');
+    const outPath = path.join(testDir, 'out', 'bundle.js');
+    const targetPath = path.join(testDir, 'target.js');
+    await writeFile(ignoredPath, unformatted);
+    await writeFile(outPath, unformatted);
+    await writeFile(targetPath, unformatted);
+
+    const result = await runPrettierFormatProject(testDir, undefined);
+
+    expect(result.success).toBe(true);
+    expect(result.formattedFiles).toEqual([targetPath]);
+    expect(await readFile(ignoredPath, 'utf-8')).toBe(unformatted);
+    expect(await readFile(outPath, 'utf-8')).toBe(unformatted);
+  });
+
+  it('skips explicit files without an inferable parser', async () => {
+    const testDir = await createTestDirectory('prettier-api', 'unknown-file');
+    const unknownPath = path.join(testDir, 'notes.unknown');
+    await writeFile(unknownPath, `whatever   content`);
+
+    const result = await runPrettierFormatFiles(testDir, undefined, [
+      unknownPath,
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toHaveLength(0);
+    expect(result.formattedFiles).toHaveLength(0);
+  });
+});
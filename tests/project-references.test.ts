@@ -0,0 +1,117 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { expandProjectReferences, runTypeScriptCheck } from '../src/checker.js';
+import { createTestDirectory } from './test-utils.js';
+
+const writeJson = (path: string, content: unknown) =>
+  fs.writeFile(path, JSON.stringify(content, null, 2));
+
+const projectOptions = {
+  composite: true,
+  strict: true,
+  target: 'ES2020',
+  module: 'ESNext',
+  lib: ['ES2020'],
+  moduleResolution: 'bundler',
+  skipLibCheck: true,
+  outDir: 'dist',
+  rootDir: '.',
+};
+
+/**
+ * Solution-style tsconfig referencing core and app, where app uses core
+ */
+const createSolution = async (testName: string): Promise<string> => {
+  const rootDir = await createTestDirectory('project-references', testName);
+  await fs.mkdir(join(rootDir, 'core'), { recursive: true });
+  await fs.mkdir(join(rootDir, 'app'), { recursive: true });
+
+  await writeJson(join(rootDir, 'tsconfig.json'), {
+    files: [],
+    references: [{ path: './app' }, { path: './core' }],
+  });
+  await writeJson(join(rootDir, 'core', 'tsconfig.json'), {
+    compilerOptions: projectOptions,
+    include: ['*.ts'],
+  });
+  await writeJson(join(rootDir, 'app', 'tsconfig.json'), {
+    compilerOptions: projectOptions,
+    include: ['*.ts'],
+    references: [{ path: '../core' }],
+  });
+
+  await fs.writeFile(
+    join(rootDir, 'core', 'index.ts'),
+    `/**\n * @deprecated Use modern instead\n */\nexport const legacy = 1;\nexport const broken: number = 'core';\n`
+  );
+  await fs.writeFile(
+    join(rootDir, 'app', 'main.ts'),
+    `import { legacy } from '../core/index';\nexport const value: string = legacy;\n`
+  );
+  return rootDir;
+};
+
+const codes = (errors: { message: string }[]) =>
+  errors.map((error) => error.message.split(':')[0]).sort();
+
+describe('Project references', () => {
+  it('expands a solution-style tsconfig into its references', async () => {
+    const rootDir = await createSolution('expand');
+
+    // Referenced projects come first, and the solution itself is dropped.
+    expect(await expandProjectReferences(rootDir, undefined)).toEqual([
+      join(rootDir, 'core', 'tsconfig.json'),
+      join(rootDir, 'app', 'tsconfig.json'),
+    ]);
+    expect(
+      await expandProjectReferences(rootDir, [
+        join(rootDir, 'core', 'tsconfig.json'),
+      ])
+    ).toEqual([join(rootDir, 'core', 'tsconfig.json')]);
+  });
+
+  it('keeps the default lookup when there are no references', async () => {
+    const rootDir = await createTestDirectory(
+      'project-references',
+      'no-references'
+    );
+    await writeJson(join(rootDir, 'tsconfig.json'), {
+      include: ['*.ts'],
+    });
+
+    expect(await expandProjectReferences(rootDir, undefined)).toBeUndefined();
+    expect(
+      await expandProjectReferences(rootDir, ['missing/tsconfig.json'])
+    ).toEqual([join(rootDir, 'missing', 'tsconfig.json')]);
+  });
+
+  it('attributes diagnostics to the owning project', async () => {
+    const rootDir = await createSolution('attribute');
+
+    const core = await runTypeScriptCheck(
+      rootDir,
+      true,
+      undefined,
+      join(rootDir, 'core', 'tsconfig.json')
+    );
+    const app = await runTypeScriptCheck(
+      rootDir,
+      true,
+      undefined,
+      join(rootDir, 'app', 'tsconfig.json')
+    );
+
+    // app resolves core from its sources (no TS6305 for the missing output),
+    // and does not report core's own problems again.
+    expect(codes(core.errors)).toEqual(['TS2322']);
+    expect(core.errors[0]?.file).toContain('core');
+    expect(codes(app.errors)).toEqual(['PMAX001', 'TS2322']);
+    expect(app.errors.every((error) => error.file.includes('app'))).toBe(true);
+  });
+});
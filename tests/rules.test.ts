@@ -0,0 +1,171 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import prettierMax, { ConsoleReporter } from '../src/index.js';
+import type { PrettierMaxOptions } from '../src/index.js';
+import * as checker from '../src/checker.js';
+import {
+  applyRuleSeverities,
+  createPrettierDiagnostic,
+  createPrettierMaxDiagnostic,
+} from '../src/diagnostics.js';
+import { createTestDirectory } from './test-utils.js';
+
+const makeLogger = () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const createProject = async (testName: string): Promise<string> => {
+  const testDir = await createTestDirectory('rules', testName);
+  await fs.writeFile(
+    join(testDir, 'tsconfig.json'),
+    JSON.stringify({
+      compilerOptions: {
+        target: 'ES2020',
+        module: 'ESNext',
+        lib: ['ES2020'],
+        skipLibCheck: true,
+        moduleResolution: 'bundler',
+        noEmit: true,
+        strict: true,
+      },
+      include: ['*.ts'],
+    })
+  );
+  await fs.writeFile(
+    join(testDir, 'legacy.ts'),
+    `/**\n * @deprecated Use modern instead\n */\nexport const legacy = 1;\nexport default legacy;\n`
+  );
+  await fs.writeFile(
+    join(testDir, 'consumer.ts'),
+    `import { legacy } from './legacy';\nexport const value = legacy;\n`
+  );
+  return testDir;
+};
+
+/**
+ * Run configResolved and buildStart of the plugin, returning the build error
+ */
+const build = async (
+  testDir: string,
+  options: PrettierMaxOptions
+): Promise<{ logger: ReturnType<typeof makeLogger>; error: unknown }> => {
+  const logger = makeLogger();
+  vi.spyOn(checker, 'runPrettierFormatProject').mockResolvedValue({
+    success: true,
+    errors: [],
+    formattedFiles: [],
+    duration: 1,
+  });
+
+  const plugin = prettierMax({
+    generatePrettierConfig: false,
+    bannerExtensions: [],
+    cache: false,
+    ...options,
+  });
+  const pluginContext = {} as any;
+  const configResolvedHook = plugin.configResolved;
+  if (typeof configResolvedHook === 'function') {
+    await configResolvedHook.call(pluginContext, {
+      root: testDir,
+      logLevel: 'info',
+      customLogger: undefined,
+      logger,
+    } as any);
+  }
+
+  let error: unknown;
+  const buildStartHook = plugin.buildStart;
+  if (typeof buildStartHook === 'function') {
+    try {
+      await buildStartHook.call(pluginContext, {} as any);
+    } catch (caught) {
+      error = caught;
+    }
+  }
+  return { logger, error };
+};
+
+describe('Rule severities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('downgrades or drops findings of configured rules only', () => {
+    const deprecated = createPrettierMaxDiagnostic('a.ts', 'PMAX001', 'x');
+    const unused = createPrettierMaxDiagnostic('a.ts', 'PMAX002', 'y');
+    const defaultImport = createPrettierMaxDiagnostic('a.ts', 'PMAX003', 'z');
+    const unformatted = createPrettierDiagnostic('a.ts', 'PRETTIER001', 'w');
+
+    const result = applyRuleSeverities(
+      [deprecated, unused, defaultImport, unformatted],
+      { PMAX001: 'warn', PMAX002: 'error', PMAX003: 'off' }
+    );
+
+    expect(result).toEqual([
+      { ...deprecated, severity: 'warning' },
+      unused,
+      unformatted,
+    ]);
+  });
+
+  it('reports warnings without failing the build', async () => {
+    const testDir = await createProject('warn');
+    const reporter = { report: vi.fn(), clear: vi.fn() };
+
+    const { logger, error } = await build(testDir, {
+      reporter: [new ConsoleReporter(testDir), reporter],
+      rules: { PMAX001: 'warn' },
+    });
+
+    expect(error).toBeUndefined();
+    const warnings = logger.warn.mock.calls.flat().join('\n');
+    expect(warnings).toContain('TypeScript validation passed with 2 warnings');
+    expect(warnings).toContain("PMAX001: 'legacy' is deprecated");
+    expect(logger.error).not.toHaveBeenCalled();
+    // The default export in legacy.ts uses the deprecated symbol as well.
+    expect(reporter.report).toHaveBeenCalledWith([
+      expect.objectContaining({ code: 'PMAX001', severity: 'warning' }),
+      expect.objectContaining({ code: 'PMAX001', severity: 'warning' }),
+    ]);
+  });
+
+  it('fails only on error-level findings and skips rules turned off', async () => {
+    const testDir = await createProject('error');
+    const typeCheckSpy = vi.spyOn(checker, 'runTypeScriptCheck');
+
+    const { logger, error } = await build(testDir, {
+      detectDefaultImport: 'all',
+      rules: { PMAX001: 'warn', PMAX003: 'off' },
+    });
+
+    // PMAX003 is not detected at all, so nothing fails.
+    expect(typeCheckSpy).toHaveBeenCalledWith(
+      testDir,
+      true,
+      expect.anything(),
+      undefined,
+      'none',
+      false
+    );
+    expect(error).toBeUndefined();
+
+    const { error: failure } = await build(testDir, {
+      detectDefaultImport: 'all',
+      rules: { PMAX001: 'warn' },
+    });
+    expect(String(failure)).toContain(
+      'TypeScript validation failed: 1 error found.'
+    );
+    expect(logger.warn.mock.calls.flat().join('\n')).toContain('PMAX001');
+  });
+});
@@ -0,0 +1,208 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ConsoleReporter, runPrettierMax } from '../src/index.js';
+import type { BuildReport, ErrorReporter } from '../src/index.js';
+import { createTestDirectory } from './test-utils.js';
+
+const makeLogger = () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe('runPrettierMax', () => {
+  it('returns the outcome of each phase without a bundler', async () => {
+    const testDir = await createTestDirectory('run-prettier-max', 'phases');
+    await fs.writeFile(
+      join(testDir, 'tsconfig.json'),
+      // Already formatted
+      [
+        '{',
+        '  "compilerOptions": { "strict": true, "noEmit": true },',
+        '  "include": ["src/**/*.ts"]',
+        '}',
+        '',
+      ].join('\n')
+    );
+    await fs.mkdir(join(testDir, 'src'));
+    await fs.writeFile(
+      join(testDir, 'src', 'main.ts'),
+      `export const value: number  =  'text'\n`
+    );
+    const builds: BuildReport[] = [];
+    const reporter: ErrorReporter = {
+      report: vi.fn(),
+      clear: vi.fn(),
+      reportBuild: (build) => builds.push(build),
+    };
+    const logger = makeLogger();
+
+    const result = await runPrettierMax({
+      rootDir: testDir,
+      logger,
+      reporter,
+      cache: false,
+      generatePrettierConfig: false,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.formattedFiles).toEqual([join(testDir, 'src', 'main.ts')]);
+    expect(result.phases.map((phase) => phase.name)).toEqual([
+      'prettier',
+      'typescript',
+      'rules',
+    ]);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        file: join(testDir, 'src', 'main.ts'),
+        code: 'TS2322',
+      }),
+    ]);
+    expect(result.phases[1]!.diagnostics).toEqual(result.diagnostics);
+    expect(result.phases[0]!.duration).toBeGreaterThanOrEqual(0);
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+    // What the plugin fails the build with, returned instead of thrown
+    expect(String(result.error)).toContain(
+      'TypeScript validation failed: 1 error found.'
+    );
+    // Reporters receive the same results
+    expect(reporter.report).toHaveBeenCalledWith(result.diagnostics);
+    expect(builds).toEqual([
+      {
+        phases: result.phases,
+        duration: result.duration,
+        success: false,
+      },
+    ]);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining('Formatted 1 file')
+    );
+
+    const passing = await runPrettierMax({
+      rootDir: testDir,
+      logger,
+      reporter,
+      cache: false,
+      generatePrettierConfig: false,
+      typescript: false,
+    });
+    expect(passing).toMatchObject({
+      success: true,
+      diagnostics: [],
+      formattedFiles: [],
+    });
+    expect(passing.error).toBeUndefined();
+  }, 60000);
+
+  it('fails on missing banners in banner check mode', async () => {
+    const testDir = await createTestDirectory('run-prettier-max', 'banner');
+    await fs.writeFile(join(testDir, '.prettierbanner'), '// Banner\n');
+    await fs.writeFile(join(testDir, 'main.ts'), 'export const value = 1;\n');
+
+    const result = await runPrettierMax({
+      rootDir: testDir,
+      logger: makeLogger(),
+      reporter: [],
+      banner: 'check',
+      cache: false,
+      generatePrettierConfig: false,
+      typescript: false,
+    });
+
+    expect(result.success).toBe(false);
+    expect(String(result.error)).toContain(
+      'Banner check failed: 1 file without an up-to-date banner.'
+    );
+    expect(result.phases).toEqual([
+      expect.objectContaining({
+        kind: 'banner',
+        diagnostics: [expect.objectContaining({ code: 'PMAX004' })],
+        banner: expect.objectContaining({
+          mode: 'check',
+          missing: 1,
+          files: [{ file: 'main.ts', status: 'missing' }],
+        }),
+      }),
+    ]);
+    expect(await fs.readFile(join(testDir, 'main.ts'), 'utf8')).toBe(
+      'export const value = 1;\n'
+    );
+  }, 60000);
+
+  it('succeeds with warnings on ambiguous banner headers', async () => {
+    const testDir = await createTestDirectory(
+      'run-prettier-max',
+      'banner-ambiguous'
+    );
+    await fs.writeFile(
+      join(testDir, '.prettierbanner'),
+      'Example charts toolkit\nLicensed under MIT.\n'
+    );
+    await fs.writeFile(
+      join(testDir, 'main.ts'),
+      '// Example maps toolkit fork\n// Maintained elsewhere\n\nexport const value = 1;\n'
+    );
+
+    const result = await runPrettierMax({
+      rootDir: testDir,
+      logger: makeLogger(),
+      reporter: [],
+      banner: 'check',
+      cache: false,
+      generatePrettierConfig: false,
+      typescript: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'PMAX006', severity: 'warning' }),
+    ]);
+  }, 60000);
+
+  it('prints each diagnostic once over the phases of a build', async () => {
+    const testDir = await createTestDirectory(
+      'run-prettier-max',
+      'console-once'
+    );
+    await fs.writeFile(
+      join(testDir, 'tsconfig.json'),
+      '{ "compilerOptions": { "strict": true, "noEmit": true } }\n'
+    );
+    await fs.writeFile(
+      join(testDir, '.prettierbanner'),
+      'Example charts toolkit\nLicensed under MIT.\n'
+    );
+    await fs.writeFile(
+      join(testDir, 'main.ts'),
+      '// Example maps toolkit fork\n// Maintained elsewhere\n\nexport const value: number  =  1 as unknown as string\n'
+    );
+    const logger = makeLogger();
+
+    const result = await runPrettierMax({
+      rootDir: testDir,
+      logger,
+      reporter: [new ConsoleReporter(testDir)],
+      failOnError: false,
+      cache: false,
+      generatePrettierConfig: false,
+    });
+
+    // The file is formatted, so TypeScript validation runs after the banner
+    expect(result.formattedFiles).toEqual([join(testDir, 'main.ts')]);
+    expect(result.diagnostics.map(({ code }) => code)).toEqual([
+      'PMAX006',
+      'TS2322',
+    ]);
+    const printed = [...logger.error.mock.calls, ...logger.warn.mock.calls]
+      .map(([message]) => String(message))
+      .filter((message) => /^main\.ts\(\d+,\d+\): /.test(message));
+    expect(printed).toHaveLength(2);
+  }, 60000);
+});
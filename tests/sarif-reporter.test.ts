@@ -0,0 +1,255 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import prettierMax, { SarifReporter } from '../src/index.js';
+import * as checker from '../src/checker.js';
+import {
+  createPrettierDiagnostic,
+  createPrettierMaxDiagnostic,
+} from '../src/diagnostics.js';
+import { createTestDirectory } from './test-utils.js';
+
+const readLog = async (path: string): Promise<any> =>
+  JSON.parse(await fs.readFile(path, 'utf-8'));
+
+describe('SarifReporter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes results with rule metadata, relative URIs and regions', async () => {
+    const testDir = await createTestDirectory('sarif-reporter', 'results');
+    const reporter = new SarifReporter({
+      cwd: testDir,
+      outputPath: 'reports/result.sarif',
+    });
+
+    reporter.report([
+      {
+        ...createPrettierMaxDiagnostic('src/a.ts', 'PMAX002', 'unused', {
+          line: 3,
+          column: 1,
+          endLine: 3,
+          endColumn: 20,
+        }),
+        severity: 'warning',
+        fix: {
+          description: 'Remove directive',
+          edits: [
+            {
+              file: 'src/a.ts',
+              line: 3,
+              column: 1,
+              endLine: 4,
+              endColumn: 1,
+              newText: '',
+            },
+          ],
+        },
+      },
+      createPrettierDiagnostic(
+        join(testDir, 'b.js'),
+        'PRETTIER001',
+        'File is not formatted with Prettier'
+      ),
+      {
+        file: 'src/c.ts',
+        line: 2,
+        column: 5,
+        message: 'TS2554: Expected 1 arguments, but got 0.',
+        severity: 'error',
+        code: 'TS2554',
+        source: 'typescript',
+        messageText: 'Expected 1 arguments, but got 0.',
+        relatedInformation: [
+          { file: 'src/c.ts', line: 1, column: 15, message: 'declared here' },
+        ],
+      },
+      { file: '/elsewhere/d.js', message: 'File is not formatted' },
+    ]);
+
+    const log = await readLog(join(testDir, 'reports', 'result.sarif'));
+    expect(log.version).toBe('2.1.0');
+    const [run] = log.runs;
+    expect(run.tool.driver.name).toBe('prettier-max');
+    const ruleIds = run.tool.driver.rules.map((rule: any) => rule.id);
+    expect(ruleIds).toEqual(
+      expect.arrayContaining(['PMAX001', 'PMAX002', 'PMAX003'])
+    );
+    // Ambiguous banner headers are only ever reported as warnings
+    expect(
+      run.tool.driver.rules.find((rule: any) => rule.id === 'PMAX006')
+        .defaultConfiguration
+    ).toEqual({ level: 'warning' });
+    expect(run.tool.driver.rules[0].defaultConfiguration).toEqual({
+      level: 'error',
+    });
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toBe(
+      pathToFileURL(testDir + '/').href
+    );
+
+    const [unused, unformatted, typescript, outside] = run.results;
+    expect(unused).toMatchObject({
+      ruleId: 'PMAX002',
+      ruleIndex: ruleIds.indexOf('PMAX002'),
+      level: 'warning',
+      message: { text: 'unused' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/a.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 20 },
+          },
+        },
+      ],
+      fixes: [
+        {
+          description: { text: 'Remove directive' },
+          artifactChanges: [
+            {
+              artifactLocation: { uri: 'src/a.ts' },
+              replacements: [
+                {
+                  deletedRegion: {
+                    startLine: 3,
+                    startColumn: 1,
+                    endLine: 4,
+                    endColumn: 1,
+                  },
+                  insertedContent: { text: '' },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    expect(unformatted).toMatchObject({
+      ruleId: 'PRETTIER001',
+      level: 'error',
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'b.js' } } }],
+    });
+    expect(unformatted.locations[0].physicalLocation.region).toBeUndefined();
+    expect(typescript).toMatchObject({
+      ruleId: 'TS2554',
+      relatedLocations: [
+        {
+          id: 0,
+          message: { text: 'declared here' },
+          physicalLocation: {
+            artifactLocation: { uri: 'src/c.ts' },
+            region: { startLine: 1, startColumn: 15 },
+          },
+        },
+      ],
+    });
+    expect(typescript.ruleIndex).toBeUndefined();
+    expect(outside).toMatchObject({
+      ruleId: 'PRETTIER001',
+      message: { text: 'File is not formatted' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'file:///elsewhere/d.js' },
+          },
+        },
+      ],
+    });
+
+    reporter.clear();
+    expect((await readLog(reporter.outputPath)).runs[0].results).toEqual([]);
+  });
+
+  it('rewrites the log with formatting and TypeScript findings on every build', async () => {
+    const testDir = await createTestDirectory('sarif-reporter', 'build');
+    const outputPath = join(testDir, 'prettier-max.sarif');
+    await fs.writeFile(outputPath, 'stale');
+    await fs.writeFile(
+      join(testDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { strict: true }, files: [] })
+    );
+    const formatSpy = vi
+      .spyOn(checker, 'runPrettierFormatProject')
+      .mockResolvedValue({
+        success: false,
+        errors: [
+          createPrettierDiagnostic(
+            join(testDir, 'a.js'),
+            'PRETTIER001',
+            'File is not formatted with Prettier'
+          ),
+        ],
+        formattedFiles: [],
+        duration: 1,
+      });
+    vi.spyOn(checker, 'runTypeScriptCheck').mockResolvedValue({
+      success: false,
+      errors: [createPrettierMaxDiagnostic('b.ts', 'PMAX003', 'default')],
+      formattedFiles: [],
+      duration: 1,
+    });
+
+    const plugin = prettierMax({
+      reporter: new SarifReporter({ cwd: testDir }),
+      failOnError: false,
+      generatePrettierConfig: false,
+      bannerExtensions: [],
+      cache: false,
+    });
+    const logger = {
+      info: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const pluginContext = {} as any;
+    const configResolvedHook = plugin.configResolved;
+    if (typeof configResolvedHook === 'function') {
+      await configResolvedHook.call(pluginContext, {
+        root: testDir,
+        logLevel: 'info',
+        customLogger: undefined,
+        logger,
+      } as any);
+    }
+    const runBuild = async () => {
+      const buildStartHook = plugin.buildStart;
+      if (typeof buildStartHook === 'function') {
+        await buildStartHook.call(pluginContext, {} as any);
+      }
+    };
+
+    // TypeScript validation runs only once the files are formatted.
+    await runBuild();
+    const ruleIds = async () =>
+      (await readLog(outputPath)).runs[0].results.map(
+        (result: any) => result.ruleId
+      );
+    expect(await ruleIds()).toEqual(['PRETTIER001']);
+
+    formatSpy.mockResolvedValue({
+      success: true,
+      errors: [],
+      formattedFiles: [],
+      duration: 1,
+    });
+    await runBuild();
+    expect(await ruleIds()).toEqual(['PMAX003']);
+
+    // Once everything is fixed, the next build leaves an empty log.
+    vi.spyOn(checker, 'runTypeScriptCheck').mockResolvedValue({
+      success: true,
+      errors: [],
+      formattedFiles: [],
+      duration: 1,
+    });
+    await runBuild();
+    expect(await ruleIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createTestDirectory } from './test-utils';
+import { filterErrorsByScope, resolveScopeFiles } from '../src/scope';
+import { runPrettierFormatProject } from '../src/checker';
+import { applyBanner } from '../src/banner';
+import { runPrettierMax } from '../src/pipeline';
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync(
+    'git',
+    ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+    { cwd, stdio: 'pipe' }
+  ).toString();
+
+const unformatted = `const  value   =    "x"  ;`;
+
+/**
+ * Repository with a committed base, a feature commit, a staged and an unstaged edit
+ */
+const createRepository = async (testName: string) => {
+  const rootDir = await createTestDirectory('scope', testName);
+  await mkdir(join(rootDir, 'src'), { recursive: true });
+  git(rootDir, 'init', '-q', '-b', 'main');
+  await writeFile(join(rootDir, 'src', 'base.js'), unformatted);
+  await writeFile(join(rootDir, 'src', 'committed.js'), unformatted);
+  await writeFile(join(rootDir, 'src', 'staged.js'), unformatted);
+  await writeFile(join(rootDir, 'src', 'unstaged.js'), unformatted);
+  git(rootDir, 'add', '-A');
+  git(rootDir, 'commit', '-q', '-m', 'base');
+
+  git(rootDir, 'checkout', '-q', '-b', 'feature');
+  await writeFile(join(rootDir, 'src', 'committed.js'), `${unformatted}\n`);
+  git(rootDir, 'commit', '-q', '-am', 'feature');
+
+  await writeFile(join(rootDir, 'src', 'staged.js'), `${unformatted}\n`);
+  git(rootDir, 'add', 'src/staged.js');
+  await writeFile(join(rootDir, 'src', 'unstaged.js'), `${unformatted}\n`);
+  await writeFile(join(rootDir, 'src', 'untracked.js'), unformatted);
+  return rootDir;
+};
+
+describe('File scope', () => {
+  it('resolves files from git', async () => {
+    const rootDir = await createRepository('resolve');
+    const src = (name: string) => join(rootDir, 'src', name);
+
+    expect(await resolveScopeFiles(rootDir, 'all')).toBeUndefined();
+    expect(await resolveScopeFiles(rootDir, 'staged')).toEqual([
+      src('staged.js'),
+    ]);
+    expect(await resolveScopeFiles(rootDir, 'changed')).toEqual([
+      src('staged.js'),
+      src('unstaged.js'),
+      src('untracked.js'),
+    ]);
+    expect(await resolveScopeFiles(rootDir, { since: 'main' })).toEqual([
+      src('committed.js'),
+      src('staged.js'),
+      src('unstaged.js'),
+    ]);
+  });
+
+  it('only returns files under the project root', async () => {
+    const rootDir = await createRepository('subdirectory');
+    const projectDir = join(rootDir, 'src');
+
+    expect(await resolveScopeFiles(projectDir, 'staged')).toEqual([
+      join(projectDir, 'staged.js'),
+    ]);
+  });
+
+  it('resolves paths that are not ASCII', async () => {
+    const rootDir = await createRepository('non-ascii');
+    const modifiedPath = join(rootDir, 'src', 'ä.js');
+    const untrackedPath = join(rootDir, 'src', '日本語.js');
+    await writeFile(modifiedPath, unformatted);
+    git(rootDir, 'add', 'src/ä.js');
+    git(rootDir, 'commit', '-q', '-m', 'non-ascii');
+    await writeFile(modifiedPath, `${unformatted}\n`);
+    await writeFile(untrackedPath, unformatted);
+
+    expect(await resolveScopeFiles(rootDir, 'changed')).toEqual(
+      expect.arrayContaining([modifiedPath, untrackedPath])
+    );
+  });
+
+  it('rejects outside of a git repository', async () => {
+    const rootDir = await createTestDirectory('scope', 'not-a-repository');
+    // The test directory lives in this repository, so point git elsewhere.
+    const previous = process.env.GIT_CEILING_DIRECTORIES;
+    process.env.GIT_CEILING_DIRECTORIES = join(rootDir, '..');
+    try {
+      await expect(resolveScopeFiles(rootDir, 'staged')).rejects.toThrow();
+    } finally {
+      if (previous === undefined) {
+        delete process.env.GIT_CEILING_DIRECTORIES;
+      } else {
+        process.env.GIT_CEILING_DIRECTORIES = previous;
+      }
+    }
+  });
+
+  it('formats and bannerises only scoped files', async () => {
+    const rootDir = await createRepository('format');
+    await writeFile(join(rootDir, '.prettierbanner'), `// Banner\n`);
+    const files = (await resolveScopeFiles(rootDir, 'staged'))!;
+
+    await applyBanner({
+      rootDir,
+      logger: {
+        info: () => {},
+        debug: () => {},
+        warn: () => {},
+        error: () => {},
+      },
+      files,
+    });
+    const result = await runPrettierFormatProject(rootDir, undefined, {
+      files,
+    });
+
+    expect(result.formattedFiles).toEqual(files);
+    expect(await readFile(join(rootDir, 'src', 'staged.js'), 'utf-8')).toBe(
+      `// Banner\n\nconst value = 'x';\n`
+    );
+    expect(await readFile(join(rootDir, 'src', 'base.js'), 'utf-8')).toBe(
+      unformatted
+    );
+  });
+
+  it('processes no files when the scope cannot be resolved', async () => {
+    const rootDir = await createRepository('bad-ref');
+    const logger = {
+      info: () => {},
+      debug: () => {},
+      warn: () => {},
+      error: () => {},
+    };
+    const options = {
+      rootDir,
+      logger,
+      reporter: [],
+      scope: { since: 'no-such-ref' },
+      cache: false,
+      generatePrettierConfig: false,
+      typescript: false as const,
+    };
+
+    const failed = await runPrettierMax(options);
+    expect(String(failed.error)).toContain('no-such-ref');
+    const skipped = await runPrettierMax({ ...options, failOnError: false });
+    expect(skipped.error).toBeUndefined();
+    expect(skipped.formattedFiles).toEqual([]);
+
+    for (const name of ['base.js', 'untracked.js']) {
+      expect(await readFile(join(rootDir, 'src', name), 'utf-8')).toBe(
+        unformatted
+      );
+    }
+  });
+
+  it('filters diagnostics to scoped files', () => {
+    const rootDir = '/project';
+    const errors = [
+      { file: 'src/a.ts', line: 1, column: 1, message: 'TS2304: a' },
+      { file: '/project/src/b.ts', line: 2, column: 1, message: 'PMAX001: b' },
+      { file: '/project/tsconfig.json', message: 'Config error' },
+    ];
+
+    expect(filterErrorsByScope(rootDir, errors, ['/project/src/a.ts'])).toEqual(
+      [errors[0], errors[2]]
+    );
+  });
+});
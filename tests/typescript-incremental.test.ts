@@ -0,0 +1,115 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect } from 'vitest';
+import { promises as fs, existsSync } from 'fs';
+import { join } from 'path';
+import { runTypeScriptCheck } from '../src/checker.js';
+import { getCacheDirectory } from '../src/cache.js';
+import { createTestDirectory } from './test-utils.js';
+
+const createProject = async (testName: string): Promise<string> => {
+  const testDir = await createTestDirectory('typescript-incremental', testName);
+  await fs.writeFile(
+    join(testDir, 'tsconfig.json'),
+    JSON.stringify(
+      {
+        compilerOptions: {
+          target: 'ES2020',
+          module: 'ESNext',
+          lib: ['ES2020'],
+          skipLibCheck: true,
+          moduleResolution: 'bundler',
+          noEmit: true,
+          strict: true,
+        },
+        include: ['*.ts'],
+      },
+      null,
+      2
+    )
+  );
+  await fs.writeFile(
+    join(testDir, 'legacy.ts'),
+    `/**\n * @deprecated Use modern instead\n */\nexport const legacy = 1;\n`
+  );
+  await fs.writeFile(
+    join(testDir, 'consumer.ts'),
+    `import { legacy } from './legacy';\nexport const value = legacy;\n`
+  );
+  await fs.writeFile(
+    join(testDir, 'broken.ts'),
+    `export const broken: number = 'text';\n`
+  );
+  await fs.writeFile(join(testDir, 'other.ts'), `export const other = 1;\n`);
+  return testDir;
+};
+
+const codes = (errors: { message: string }[]) =>
+  errors.map((error) => error.message.split(':')[0]).sort();
+
+describe('Incremental TypeScript validation', () => {
+  it('reuses build info and replays PMAX results of unaffected files', async () => {
+    const testDir = await createProject('reuse');
+
+    const first = await runTypeScriptCheck(testDir, true);
+    expect(codes(first.errors)).toEqual(['PMAX001', 'TS2322']);
+
+    const typescriptCacheDir = join(getCacheDirectory(testDir), 'typescript');
+    const cachedFiles = await fs.readdir(typescriptCacheDir);
+    expect(cachedFiles.some((file) => file.endsWith('.tsbuildinfo'))).toBe(
+      true
+    );
+
+    // Only other.ts is affected; both diagnostics come back from the caches.
+    await fs.writeFile(join(testDir, 'other.ts'), `export const other = 2;\n`);
+    const second = await runTypeScriptCheck(testDir, true);
+    expect(second.errors).toEqual(first.errors);
+  });
+
+  it('re-checks files affected by a change', async () => {
+    const testDir = await createProject('affected');
+    await runTypeScriptCheck(testDir, true);
+
+    // Removing the deprecation re-checks consumer.ts through its dependency.
+    await fs.writeFile(
+      join(testDir, 'legacy.ts'),
+      `export const legacy = 1;\n`
+    );
+    await fs.writeFile(
+      join(testDir, 'broken.ts'),
+      `export const broken: number = 1;\n`
+    );
+    const result = await runTypeScriptCheck(testDir, true);
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('checks everything again when detection options change', async () => {
+    const testDir = await createProject('options');
+
+    const withoutDeprecated = await runTypeScriptCheck(testDir, false);
+    const withDeprecated = await runTypeScriptCheck(testDir, true);
+
+    expect(codes(withoutDeprecated.errors)).toEqual(['TS2322']);
+    expect(codes(withDeprecated.errors)).toEqual(['PMAX001', 'TS2322']);
+  });
+
+  it('does not write build info when the cache is disabled', async () => {
+    const testDir = await createProject('disabled');
+
+    const result = await runTypeScriptCheck(
+      testDir,
+      true,
+      undefined,
+      undefined,
+      'none',
+      false
+    );
+
+    expect(codes(result.errors)).toEqual(['PMAX001', 'TS2322']);
+    expect(existsSync(getCacheDirectory(testDir))).toBe(false);
+  });
+});
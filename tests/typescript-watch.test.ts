@@ -0,0 +1,172 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createTestDirectory } from './test-utils.js';
+import {
+  createTypeScriptWatcher,
+  type TypeScriptWatcher,
+} from '../src/typescriptWatch.js';
+import { createReporterChannels } from '../src/reporters/channels.js';
+import { createPrettierDiagnostic } from '../src/diagnostics.js';
+import { ConsoleReporter } from '../src/reporters/console.js';
+
+const makeLogger = () => ({
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const createProject = async (testName: string): Promise<string> => {
+  const testDir = await createTestDirectory('typescript-watch', testName);
+  await fs.writeFile(
+    join(testDir, 'tsconfig.json'),
+    JSON.stringify({
+      compilerOptions: {
+        target: 'ES2020',
+        module: 'ESNext',
+        lib: ['ES2020'],
+        skipLibCheck: true,
+        moduleResolution: 'bundler',
+        noEmit: true,
+        strict: true,
+      },
+      include: ['*.ts'],
+    })
+  );
+  await fs.writeFile(
+    join(testDir, 'legacy.ts'),
+    `/**\n * @deprecated Use modern instead\n */\nexport const legacy = 1;\n`
+  );
+  await fs.writeFile(
+    join(testDir, 'consumer.ts'),
+    `import { legacy } from './legacy';\nexport const value: string = legacy;\n`
+  );
+  return testDir;
+};
+
+describe('TypeScript watch', () => {
+  let watcher: TypeScriptWatcher | undefined;
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+  });
+
+  it('reports diagnostics and clears them once fixed', async () => {
+    const testDir = await createProject('report-and-clear');
+    const reporter = { report: vi.fn(), clear: vi.fn() };
+
+    watcher = createTypeScriptWatcher({
+      rootDir: testDir,
+      tsconfigPaths: undefined,
+      detectDeprecated: true,
+      detectDefaultImport: 'none',
+      rules: {},
+      logger: makeLogger(),
+      reporter,
+    });
+
+    await vi.waitFor(() => expect(reporter.report).toHaveBeenCalled(), {
+      timeout: 20000,
+    });
+    const [errors] = reporter.report.mock.calls[0]!;
+    const codes = errors
+      .map((error: { message: string }) => error.message.split(':')[0])
+      .sort();
+    expect(codes).toEqual(['PMAX001', 'TS2322']);
+
+    await fs.writeFile(
+      join(testDir, 'legacy.ts'),
+      `export const legacy = 'modern';\n`
+    );
+
+    await vi.waitFor(() => expect(reporter.clear).toHaveBeenCalled(), {
+      timeout: 20000,
+    });
+  }, 60000);
+
+  it('keeps errors of other channels when one channel clears', () => {
+    const reporter = { report: vi.fn(), clear: vi.fn() };
+    const channel = createReporterChannels(reporter);
+    const prettier = channel('prettier');
+    const typescript = channel('typescript');
+    const prettierError = createPrettierDiagnostic(
+      '/project/a.js',
+      'PRETTIER001',
+      'format'
+    );
+    const typescriptError = {
+      ...prettierError,
+      file: '/project/b.ts',
+      message: 'TS2322: x',
+      code: 'TS2322',
+      source: 'typescript' as const,
+      messageText: 'x',
+    };
+
+    prettier.report([prettierError]);
+    typescript.report([typescriptError]);
+    prettier.clear();
+    typescript.report([]);
+
+    expect(reporter.report.mock.calls).toEqual([
+      [[prettierError]],
+      [[prettierError, typescriptError]],
+      [[typescriptError]],
+    ]);
+    expect(reporter.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it('prints the errors of each channel once on the console', () => {
+    const logger = makeLogger();
+    const reporter = new ConsoleReporter('/project', { color: false });
+    reporter.setLogger(logger);
+    const channel = createReporterChannels(reporter);
+    const prettierError = createPrettierDiagnostic(
+      '/project/a.js',
+      'PRETTIER001',
+      'format'
+    );
+    const typescriptError = {
+      ...prettierError,
+      file: '/project/b.ts',
+      message: 'TS2322: x',
+      code: 'TS2322',
+      source: 'typescript' as const,
+      messageText: 'x',
+    };
+    const bannerError = {
+      ...prettierError,
+      file: '/project/c.ts',
+      message: 'PMAX006: banner',
+      code: 'PMAX006',
+      source: 'prettier-max' as const,
+      messageText: 'banner',
+      severity: 'warning' as const,
+    };
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      channel('banner').report([bannerError]);
+      channel('prettier').report([prettierError]);
+      channel('typescript').report([typescriptError]);
+      channel('typescript').report([typescriptError]);
+    } finally {
+      vi.restoreAllMocks();
+    }
+
+    expect(logger.warn.mock.calls).toEqual([
+      ['c.ts(1,1): warning PMAX006: banner'],
+    ]);
+    expect(logger.error.mock.calls).toEqual([
+      ['a.js(1,1): error PRETTIER001: format'],
+      ['b.ts(1,1): error TS2322: x'],
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+// prettier-max - A simple prettier Vite plugin
+// Copyright (c) Kouji Matsui (@kekyo@mi.kekyo.net)
+// Under MIT.
+// https://github.com/kekyo/prettier-max/
+
+import { describe, it, expect } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { createTestDirectory } from './test-utils';
+import { runPrettierFormatProject } from '../src/checker';
+import {
+  checkTypeScriptInWorkers,
+  formatFilesInWorkers,
+} from '../src/workerPool';
+import { loadPrettierApi } from '../src/prettierApi';
+
+const workerScript = path.resolve(__dirname, '../dist/worker.mjs');
+
+const createFiles = async (testDir: string, count: number) => {
+  const files: string[] = [];
+  for (let index = 0; index < count; index++) {
+    const filePath = path.join(
+      testDir,
+      `file${String(index).padStart(3, '0')}.js`
+    );
+    // Every third file is broken, every other one needs formatting
+    const content =
+      index % 3 === 0
+        ? `const broken${index} = ;\n`
+        : index % 2 === 0
+          ? `const  value${index}   =    "x"  ;`
+          : `const value${index} = 'x';\n`;
+    await writeFile(filePath, content);
+    files.push(filePath);
+  }
+  return files;
+};
+
+const loadLocalPrettier = async () => {
+  const require = createRequire(import.meta.url);
+  const pkgPath = require.resolve('prettier/package.json');
+  const pkg = JSON.parse(await readFile(pkgPath, 'utf-8'));
+  const pkgDir = path.dirname(pkgPath);
+  const api = await loadPrettierApi(pkgDir, pkg);
+  return { api: api!, pkgDir, pkg };
+};
+
+describe('Worker pool formatting', () => {
+  it('merges results in deterministic order with concurrency', async () => {
+    const testDir = await createTestDirectory('worker-pool', 'ordering');
+    const files = await createFiles(testDir, 250);
+
+    const result = await runPrettierFormatProject(testDir, undefined, {
+      concurrency: 4,
+    });
+
+    const brokenFiles = files.filter((_, index) => index % 3 === 0);
+    const formattedFiles = files.filter(
+      (_, index) => index % 3 !== 0 && index % 2 === 0
+    );
+    expect(result.success).toBe(false);
+    expect(result.errors.map((error) => error.file)).toEqual(brokenFiles);
+    expect(result.formattedFiles).toEqual(formattedFiles);
+  });
+
+  it.skipIf(!existsSync(workerScript))(
+    'formats batches in worker threads',
+    async () => {
+      const testDir = await createTestDirectory('worker-pool', 'threads');
+      const files = await createFiles(testDir, 250);
+      const { api, pkgDir, pkg } = await loadLocalPrettier();
+
+      const result = await formatFilesInWorkers({
+        prettier: api,
+        pkgDir,
+        pkg,
+        rootDir: testDir,
+        files,
+        configPath: undefined,
+        mode: 'write',
+        concurrency: 3,
+        workerScript,
+      });
+
+      const brokenFiles = files.filter((_, index) => index % 3 === 0);
+      const formattedFiles = files.filter(
+        (_, index) => index % 3 !== 0 && index % 2 === 0
+      );
+      expect(result.errors.map((error) => error.file)).toEqual(brokenFiles);
+      expect(result.formattedFiles).toEqual(formattedFiles);
+      expect(await readFile(formattedFiles[0]!, 'utf-8')).toBe(
+        `const value2 = 'x';\n`
+      );
+    }
+  );
+
+  it('falls back to in-process formatting when a worker fails', async () => {
+    const testDir = await createTestDirectory('worker-pool', 'fallback');
+    const brokenWorker = path.join(testDir, 'broken-worker.mjs');
+    await writeFile(brokenWorker, `throw new Error('boom');\n`);
+    const files = await createFiles(testDir, 150);
+    const { api, pkgDir, pkg } = await loadLocalPrettier();
+
+    const result = await formatFilesInWorkers({
+      prettier: api,
+      pkgDir,
+      pkg,
+      rootDir: testDir,
+      files,
+      configPath: undefined,
+      mode: 'check',
+      concurrency: 2,
+      workerScript: brokenWorker,
+    });
+
+    expect(result.errors.map((error) => error.file)).toEqual(
+      files.filter((_, index) => index % 3 === 0 || index % 2 === 0)
+    );
+    expect(result.formattedFiles).toHaveLength(0);
+  });
+});
+
+const createTypeScriptProjects = async (testDir: string) => {
+  const compilerOptions = {
+    target: 'ES2020',
+    module: 'ESNext',
+    lib: ['ES2020'],
+    skipLibCheck: true,
+    moduleResolution: 'bundler',
+    noEmit: true,
+    strict: true,
+  };
+  const tsconfigPaths: string[] = [];
+  for (const name of ['first', 'second', 'third']) {
+    const projectDir = path.join(testDir, name);
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(
+      path.join(projectDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions, include: ['*.ts'] })
+    );
+    await writeFile(
+      path.join(projectDir, 'index.ts'),
+      `export const ${name}: number = '${name}';\n`
+    );
+    tsconfigPaths.push(path.join(projectDir, 'tsconfig.json'));
+  }
+  return tsconfigPaths;
+};
+
+describe('Worker pool TypeScript validation', () => {
+  const validate = async (testName: string, script: string) => {
+    const testDir = await createTestDirectory('worker-pool', testName);
+    const tsconfigPaths = await createTypeScriptProjects(testDir);
+    const order: number[] = [];
+
+    const outcomes = await checkTypeScriptInWorkers({
+      rootDir: testDir,
+      tsconfigPaths,
+      detectDeprecated: true,
+      detectDefaultImport: 'none',
+      cache: false,
+      concurrency: 2,
+      workerScript: script,
+      onOutcome: (index) => order.push(index),
+    });
+
+    // Outcomes are handed over in tsconfig order, whichever finished first.
+    expect(order).toEqual([0, 1, 2]);
+    expect(
+      outcomes.map(({ result }) => result.errors.map((e) => e.file))
+    ).toEqual(
+      ['first', 'second', 'third'].map((name) => [
+        path.join(testDir, name, 'index.ts'),
+      ])
+    );
+  };
+
+  it.skipIf(!existsSync(workerScript))(
+    'validates tsconfigs in worker threads',
+    async () => {
+      await validate('typescript-threads', workerScript);
+    },
+    60000
+  );
+
+  it('falls back to in-process validation when a worker fails', async () => {
+    const testDir = await createTestDirectory('worker-pool', 'ts-broken');
+    const brokenWorker = path.join(testDir, 'broken-worker.mjs');
+    await writeFile(brokenWorker, `throw new Error('boom');\n`);
+
+    await validate('typescript-fallback', brokenWorker);
+  }, 60000);
+});
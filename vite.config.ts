@@ -25,10 +25,31 @@ export default defineConfig({
   ],
   build: {
     lib: {
-      entry: resolve(
-        fileURLToPath(new URL('.', import.meta.url)),
-        'src/index.ts'
-      ),
+      entry: {
+        index: resolve(
+          fileURLToPath(new URL('.', import.meta.url)),
+          'src/index.ts'
+        ),
+        // Worker thread entry loaded by the formatting pool at runtime
+        worker: resolve(
+          fileURLToPath(new URL('.', import.meta.url)),
+          'src/worker.ts'
+        ),
+        // Adapters exported as `prettier-max/rollup` and `prettier-max/esbuild`
+        rollup: resolve(
+          fileURLToPath(new URL('.', import.meta.url)),
+          'src/rollup.ts'
+        ),
+        esbuild: resolve(
+          fileURLToPath(new URL('.', import.meta.url)),
+          'src/esbuild.ts'
+        ),
+        // Command line entry installed as the `prettier-max` bin
+        bin: resolve(
+          fileURLToPath(new URL('.', import.meta.url)),
+          'src/bin.ts'
+        ),
+      },
       name: 'prettier-max',
       fileName: (format, entryName) =>
         `${entryName}.${format === 'es' ? 'mjs' : 'cjs'}`,
@@ -37,14 +58,22 @@ export default defineConfig({
     rolldownOptions: {
       external: [
         'vite',
+        'rollup',
+        'esbuild',
         'path',
         'child_process',
+        'crypto',
         'fs/promises',
         'fs',
         'url',
+        'worker_threads',
         'typescript',
         'debug',
       ],
+      output: {
+        // The plugin is the default export, next to named ones like reporters
+        exports: 'named',
+      },
     },
     target: 'es2018',
     sourcemap: true,